@@ -0,0 +1,274 @@
+import { randomBytes } from 'crypto';
+import type { ToolCall, ToolDefinition } from './client.js';
+
+export type PreparedToolCall =
+  | { ok: true; args: Record<string, unknown>; repaired: boolean }
+  | { ok: false; error: string };
+
+const VALID_ESCAPES = new Set(['"', '\\', '/', 'b', 'f', 'n', 'r', 't', 'u']);
+
+const PYTHON_LITERALS: Record<string, string> = { True: 'true', False: 'false', None: 'null' };
+
+function nextNonSpace(text: string, from: number): string {
+  for (let i = from; i < text.length; i++) {
+    if (!/\s/.test(text[i])) return text[i];
+  }
+  return '';
+}
+
+/**
+ * Rewrite almost-JSON into JSON. Handles the usual local-model mistakes:
+ * single-quoted strings, unescaped newlines and quotes inside strings,
+ * invalid escapes such as "\d" in regexes, trailing commas, unquoted keys,
+ * Python literals and output that stops before the closing brackets.
+ */
+export function repairJson(text: string): string {
+  let out = '';
+  const closers: string[] = [];
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (quote) {
+      if (ch === '\\') {
+        const next = text[i + 1];
+        if (next === undefined) break;
+        if (quote === "'" && next === "'") {
+          out += "'";
+          i++;
+        } else if (VALID_ESCAPES.has(next)) {
+          out += ch + next;
+          i++;
+        } else {
+          out += '\\\\'; // A lone backslash, e.g. "\d" in a regex
+        }
+      } else if (ch === quote) {
+        // A quote only ends the string if JSON structure follows; otherwise
+        // the model forgot to escape a quote inside the value
+        const after = nextNonSpace(text, i + 1);
+        if (after === '' || ',}]:'.includes(after)) {
+          out += '"';
+          quote = null;
+        } else {
+          out += '\\"';
+        }
+      } else if (ch === '"') {
+        out += '\\"'; // Literal double quote inside a single-quoted string
+      } else if (ch === '\n') {
+        out += '\\n';
+      } else if (ch === '\r') {
+        out += '\\r';
+      } else if (ch === '\t') {
+        out += '\\t';
+      } else if (ch < ' ') {
+        out += `\\u${ch.charCodeAt(0).toString(16).padStart(4, '0')}`;
+      } else {
+        out += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      quote = ch;
+      out += '"';
+    } else if (ch === '{') {
+      closers.push('}');
+      out += ch;
+    } else if (ch === '[') {
+      closers.push(']');
+      out += ch;
+    } else if (ch === '}' || ch === ']') {
+      out = out.replace(/,\s*$/, ''); // Trailing comma
+      if (closers[closers.length - 1] === ch) closers.pop();
+      out += ch;
+    } else if (/[A-Za-z_$]/.test(ch)) {
+      let word = ch;
+      while (i + 1 < text.length && /[\w$]/.test(text[i + 1])) word += text[++i];
+      if (nextNonSpace(text, i + 1) === ':') {
+        out += JSON.stringify(word); // Unquoted key
+      } else {
+        out += PYTHON_LITERALS[word] ?? word;
+      }
+    } else {
+      out += ch;
+    }
+  }
+
+  // Truncated output: close the open string and brackets
+  if (quote) out += '"';
+  out = out.replace(/,\s*$/, '');
+  while (closers.length > 0) out += closers.pop();
+  return out;
+}
+
+function stripCodeFence(text: string): string {
+  const match = text.trim().match(/^```[\w-]*\s*\n?([\s\S]*?)\n?```$/);
+  return match ? match[1] : text;
+}
+
+/**
+ * Parse tool-call arguments, repairing them if plain JSON.parse fails.
+ * Throws with the parser's message if even the repaired text is invalid.
+ */
+export function parseToolArguments(raw: string): { args: Record<string, unknown>; repaired: boolean } {
+  if (!raw || !raw.trim()) {
+    return { args: {}, repaired: false };
+  }
+
+  let value: unknown;
+  let repaired = false;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    value = JSON.parse(repairJson(stripCodeFence(raw)));
+    repaired = true;
+  }
+
+  // Some models double-encode: "{\"path\": \"x\"}"
+  if (typeof value === 'string') {
+    value = JSON.parse(repairJson(value));
+    repaired = true;
+  }
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`expected a JSON object, got ${Array.isArray(value) ? 'an array' : typeof value}`);
+  }
+  return { args: value as Record<string, unknown>, repaired };
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Check arguments against a tool's parameter schema, coercing the harmless
+ * cases ("5" for a number, "true" for a boolean). Returns the coerced
+ * arguments and a list of problems.
+ */
+export function validateToolArguments(
+  definition: ToolDefinition,
+  args: Record<string, unknown>
+): { args: Record<string, unknown>; errors: string[] } {
+  const { properties, required } = definition.function.parameters;
+  const errors: string[] = [];
+  const result: Record<string, unknown> = { ...args };
+
+  for (const name of required) {
+    if (result[name] === undefined || result[name] === null) {
+      errors.push(`missing required parameter "${name}"`);
+    }
+  }
+
+  for (const [name, value] of Object.entries(result)) {
+    const schema = properties[name];
+    if (!schema) {
+      // Extra parameters are harmless; a misspelled required one is caught above
+      delete result[name];
+      continue;
+    }
+    if (value === undefined || value === null) continue;
+
+    const actual = typeOf(value);
+    switch (schema.type) {
+      case 'string':
+        if (actual === 'number' || actual === 'boolean') {
+          result[name] = String(value);
+        } else if (actual !== 'string') {
+          errors.push(`"${name}" must be a string, got ${actual}`);
+        }
+        break;
+      case 'number':
+      case 'integer':
+        if (actual === 'string' && (value as string).trim() !== '' && !isNaN(Number(value))) {
+          result[name] = Number(value);
+        } else if (actual !== 'number') {
+          errors.push(`"${name}" must be a ${schema.type}, got ${actual}`);
+        }
+        if (schema.type === 'integer' && typeof result[name] === 'number' && !Number.isInteger(result[name])) {
+          errors.push(`"${name}" must be an integer`);
+        }
+        break;
+      case 'boolean':
+        if (value === 'true' || value === 'false') {
+          result[name] = value === 'true';
+        } else if (actual !== 'boolean') {
+          errors.push(`"${name}" must be a boolean, got ${actual}`);
+        }
+        break;
+      case 'array':
+      case 'object':
+        if (actual !== schema.type) {
+          errors.push(`"${name}" must be an ${schema.type}, got ${actual}`);
+        }
+        break;
+    }
+  }
+
+  return { args: result, errors };
+}
+
+/**
+ * Give tool calls without an id one, so their results can be matched up.
+ * Mutates the calls in place; call before storing them in history.
+ */
+export function normalizeToolCalls(toolCalls: ToolCall[]): ToolCall[] {
+  const seen = new Set<string>();
+  for (const toolCall of toolCalls) {
+    if (!toolCall.id || seen.has(toolCall.id)) {
+      toolCall.id = `call_${randomBytes(6).toString('hex')}`;
+    }
+    seen.add(toolCall.id);
+    toolCall.function.name = toolCall.function.name.trim();
+  }
+  return toolCalls;
+}
+
+function preview(text: string): string {
+  return text.length > 300 ? text.slice(0, 300) + '...' : text;
+}
+
+/**
+ * Turn a raw tool call into validated arguments, or an error message written
+ * for the model so it can correct the call and retry. The validated
+ * arguments are written back to the call so the history holds valid JSON.
+ */
+export function prepareToolCall(toolCall: ToolCall, definitions: ToolDefinition[]): PreparedToolCall {
+  const name = toolCall.function.name;
+  const available = definitions.map(d => d.function.name).join(', ');
+
+  if (!name) {
+    return { ok: false, error: `Error: Tool call has no function name. Available tools: ${available}.` };
+  }
+  const definition = definitions.find(d => d.function.name === name);
+  if (!definition) {
+    return { ok: false, error: `Error: Unknown tool "${name}". Available tools: ${available}.` };
+  }
+
+  let parsed: { args: Record<string, unknown>; repaired: boolean };
+  try {
+    parsed = parseToolArguments(toolCall.function.arguments);
+  } catch (error) {
+    const err = error as Error;
+    return {
+      ok: false,
+      error: `Error: Arguments for ${name} are not valid JSON (${err.message}). Received: ${preview(toolCall.function.arguments)}\nCall ${name} again with a single JSON object; escape newlines as \\n and double quotes as \\".`,
+    };
+  }
+
+  const { args, errors } = validateToolArguments(definition, parsed.args);
+  if (errors.length > 0) {
+    const params = Object.entries(definition.function.parameters.properties)
+      .map(([param, schema]) => `${param} (${schema.type}${definition.function.parameters.required.includes(param) ? ', required' : ''})`)
+      .join(', ');
+    return {
+      ok: false,
+      error: `Error: Invalid arguments for ${name}: ${errors.join('; ')}.\nParameters: ${params}. Call ${name} again with corrected arguments.`,
+    };
+  }
+
+  toolCall.function.arguments = JSON.stringify(args);
+  return { ok: true, args, repaired: parsed.repaired };
+}
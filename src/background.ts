@@ -0,0 +1,172 @@
+import { spawn } from 'child_process';
+import { killProcessTree } from './shell.js';
+
+export type JobStatus = 'running' | 'exited' | 'stopped';
+
+export interface BackgroundJob {
+  id: number;
+  command: string;
+  pid: number | undefined;
+  startedAt: Date;
+  status: JobStatus;
+  exitCode: number | null;
+}
+
+/** New output since the last read, and how much of it was dropped from the buffer. */
+export interface JobOutput {
+  text: string;
+  droppedChars: number;
+}
+
+// Output kept per job; older output is dropped as new output arrives
+const MAX_BUFFER = 256 * 1024;
+
+interface JobState extends BackgroundJob {
+  exited: Promise<void>;
+  output: string;
+  // Absolute offsets into everything the job has written
+  bufferStart: number;
+  readOffset: number;
+}
+
+/**
+ * Long-running commands (dev servers, watchers) started by the model. They
+ * live for the session and are stopped with it.
+ */
+export class BackgroundJobs {
+  private jobs: JobState[] = [];
+  private nextId = 1;
+
+  constructor(private readonly cwd: string) {
+    // Last resort if Aingel exits without stopping them (an error, process.exit)
+    process.on('exit', () => {
+      for (const job of this.jobs) {
+        if (job.status === 'running' && job.pid !== undefined) killProcessTree(job.pid);
+      }
+    });
+  }
+
+  start(command: string): BackgroundJob {
+    const child = spawn(command, {
+      cwd: this.cwd,
+      shell: true,
+      detached: process.platform !== 'win32',
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    const job: JobState = {
+      id: this.nextId++,
+      command,
+      pid: child.pid,
+      startedAt: new Date(),
+      status: 'running',
+      exitCode: null,
+      exited: Promise.resolve(),
+      output: '',
+      bufferStart: 0,
+      readOffset: 0,
+    };
+
+    const collect = (text: string) => {
+      job.output += text;
+      if (job.output.length > MAX_BUFFER) {
+        const drop = job.output.length - MAX_BUFFER;
+        job.output = job.output.slice(drop);
+        job.bufferStart += drop;
+      }
+    };
+    child.stdout?.setEncoding('utf-8');
+    child.stderr?.setEncoding('utf-8');
+    child.stdout?.on('data', collect);
+    child.stderr?.on('data', collect);
+
+    job.exited = new Promise(resolve => {
+      child.on('error', (error) => {
+        collect(`\n${error.message}\n`);
+        if (job.status === 'running') job.status = 'exited';
+        resolve();
+      });
+      child.on('close', (code) => {
+        job.exitCode = code;
+        if (job.status === 'running') job.status = 'exited';
+        resolve();
+      });
+    });
+
+    this.jobs.push(job);
+    return this.describe(job);
+  }
+
+  list(): BackgroundJob[] {
+    return this.jobs.map(job => this.describe(job));
+  }
+
+  get(id: number): BackgroundJob | undefined {
+    const job = this.find(id);
+    return job && this.describe(job);
+  }
+
+  /**
+   * Output the caller hasn't seen yet (or, with fromStart, everything still
+   * buffered), marking it as read.
+   */
+  read(id: number, fromStart = false): JobOutput | undefined {
+    const job = this.find(id);
+    if (!job) return undefined;
+
+    const from = fromStart ? job.bufferStart : Math.max(job.readOffset, job.bufferStart);
+    const droppedChars = fromStart ? job.bufferStart : Math.max(0, job.bufferStart - job.readOffset);
+    job.readOffset = job.bufferStart + job.output.length;
+    return { text: job.output.slice(from - job.bufferStart), droppedChars };
+  }
+
+  /** The last few lines of output, without marking anything as read. */
+  peek(id: number, lines: number): string {
+    const job = this.find(id);
+    if (!job) return '';
+    return job.output.replace(/\n$/, '').split('\n').slice(-lines).join('\n');
+  }
+
+  /** Wait up to timeoutMs for a job to exit, e.g. to catch a command that fails at startup. */
+  async waitForExit(id: number, timeoutMs: number): Promise<void> {
+    const job = this.find(id);
+    if (!job) return;
+    let timer: NodeJS.Timeout | undefined;
+    await Promise.race([job.exited, new Promise(resolve => (timer = setTimeout(resolve, timeoutMs)))]);
+    clearTimeout(timer);
+  }
+
+  /** Stop a job and everything it started. Resolves once it has exited. */
+  async stop(id: number): Promise<BackgroundJob | undefined> {
+    const job = this.find(id);
+    if (!job) return undefined;
+    if (job.status === 'running' && job.pid !== undefined) {
+      job.status = 'stopped';
+      killProcessTree(job.pid);
+      // killProcessTree escalates to SIGKILL after 2s
+      await Promise.race([job.exited, new Promise(resolve => setTimeout(resolve, 3000).unref())]);
+    }
+    return this.describe(job);
+  }
+
+  async stopAll(): Promise<number> {
+    const running = this.jobs.filter(job => job.status === 'running');
+    await Promise.all(running.map(job => this.stop(job.id)));
+    return running.length;
+  }
+
+  private find(id: number): JobState | undefined {
+    return this.jobs.find(job => job.id === id);
+  }
+
+  private describe(job: JobState): BackgroundJob {
+    const { id, command, pid, startedAt, status, exitCode } = job;
+    return { id, command, pid, startedAt, status, exitCode };
+  }
+}
+
+/** "running", "exited (code 1)" or "stopped", for listings. */
+export function describeJobStatus(job: BackgroundJob): string {
+  if (job.status === 'exited') return `exited (code ${job.exitCode ?? '?'})`;
+  return job.status;
+}
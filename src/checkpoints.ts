@@ -0,0 +1,141 @@
+import { join, dirname, relative } from 'path';
+import { readFile, writeFile, mkdir, unlink, rmdir } from 'fs/promises';
+import { existsSync } from 'fs';
+
+interface FileSnapshot {
+  path: string;
+  // Content before the turn first touched the file; null if it didn't exist
+  before: string | null;
+  // Content the assistant last wrote, to spot edits made outside Aingel
+  after: string | null;
+}
+
+export interface Checkpoint {
+  id: number;
+  label: string;
+  createdAt: Date;
+  files: FileSnapshot[];
+}
+
+export interface RestoreResult {
+  restored: string[];
+  deleted: string[];
+  // Files changed outside Aingel since the assistant wrote them
+  modifiedSince: string[];
+}
+
+/**
+ * Per-turn snapshots of files the assistant changes, so a turn can be
+ * undone without relying on git. Kept in memory for the session.
+ */
+export class CheckpointStore {
+  private projectRoot: string;
+  private checkpoints: Checkpoint[] = [];
+  private nextId = 1;
+
+  constructor(projectRoot: string) {
+    this.projectRoot = projectRoot;
+  }
+
+  /** Start a new checkpoint; every file written until the next one belongs to it. */
+  begin(label: string): void {
+    // Drop the previous checkpoint if the turn didn't change anything
+    const last = this.checkpoints[this.checkpoints.length - 1];
+    if (last && last.files.length === 0) {
+      this.checkpoints.pop();
+    }
+    this.checkpoints.push({ id: this.nextId++, label, createdAt: new Date(), files: [] });
+  }
+
+  /**
+   * Record a write. Only the first write to a path in a turn keeps its
+   * "before" content, which is what undo goes back to.
+   */
+  record(path: string, before: string | null, after: string | null): void {
+    if (this.checkpoints.length === 0) {
+      this.begin('(untitled)');
+    }
+    const current = this.checkpoints[this.checkpoints.length - 1];
+    const existing = current.files.find(f => f.path === path);
+    if (existing) {
+      existing.after = after;
+    } else {
+      current.files.push({ path, before, after });
+    }
+  }
+
+  /** Checkpoints that changed at least one file, oldest first. */
+  list(): Checkpoint[] {
+    return this.checkpoints.filter(c => c.files.length > 0);
+  }
+
+  /** Every file changed in the session's remaining checkpoints, in the order first changed. */
+  changedPaths(): string[] {
+    return [...new Set(this.list().flatMap(c => c.files.map(f => f.path)))];
+  }
+
+  /** Revert the most recent turn that changed files. Returns null if there is none. */
+  async undo(): Promise<{ checkpoint: Checkpoint; result: RestoreResult } | null> {
+    const checkpoints = this.list();
+    const last = checkpoints[checkpoints.length - 1];
+    if (!last) return null;
+    return { checkpoint: last, result: await this.restore(last.id) };
+  }
+
+  /**
+   * Put files back the way they were before checkpoint `id`, reverting it and
+   * every later checkpoint. The reverted checkpoints are discarded.
+   */
+  async restore(id: number): Promise<RestoreResult> {
+    const index = this.checkpoints.findIndex(c => c.id === id);
+    if (index === -1) {
+      throw new Error(`No checkpoint with id ${id}`);
+    }
+
+    // Walk newest to oldest so the oldest snapshot of each file wins
+    const states = new Map<string, FileSnapshot>();
+    const newestAfter = new Map<string, string | null>();
+    for (const checkpoint of this.checkpoints.slice(index).reverse()) {
+      for (const file of checkpoint.files) {
+        if (!newestAfter.has(file.path)) newestAfter.set(file.path, file.after);
+        states.set(file.path, file);
+      }
+    }
+
+    const result: RestoreResult = { restored: [], deleted: [], modifiedSince: [] };
+    for (const [path, snapshot] of states) {
+      const fullPath = join(this.projectRoot, path);
+      const current = existsSync(fullPath) ? await readFile(fullPath, 'utf-8') : null;
+      if (current !== newestAfter.get(path)) {
+        result.modifiedSince.push(path);
+      }
+
+      if (snapshot.before === null) {
+        if (current !== null) {
+          await unlink(fullPath);
+          await this.removeEmptyDirs(dirname(fullPath));
+        }
+        result.deleted.push(path);
+      } else {
+        await mkdir(dirname(fullPath), { recursive: true });
+        await writeFile(fullPath, snapshot.before, 'utf-8');
+        result.restored.push(path);
+      }
+    }
+
+    this.checkpoints = this.checkpoints.slice(0, index);
+    return result;
+  }
+
+  // Clean up directories that only existed for files we just deleted
+  private async removeEmptyDirs(dir: string): Promise<void> {
+    while (relative(this.projectRoot, dir) && !relative(this.projectRoot, dir).startsWith('..')) {
+      try {
+        await rmdir(dir);
+      } catch {
+        return; // Not empty
+      }
+      dir = dirname(dir);
+    }
+  }
+}
@@ -1,3 +1,19 @@
+import type { Config, LLMServer } from './config.js';
+import {
+  Provider,
+  ProviderType,
+  CompletionRequest,
+  CompletionDelta,
+  HttpError,
+  StreamInterruptedError,
+  createProvider,
+} from './providers.js';
+import { ThinkTagSplitter } from './reasoning.js';
+import type { ResponseStats } from './stats.js';
+import type { GenerationParams } from './params.js';
+import { estimateRequestTokens, estimateTokens } from './context.js';
+import { ToolCallFormat, TextToolCallExtractor, usesPromptTools, toPromptToolMessages } from './toolparsers.js';
+
 export interface Model {
   id: string;
   object: string;
@@ -41,6 +57,9 @@ export interface ToolDefinition {
 export interface StreamDelta {
   role?: string;
   content?: string | null;
+  // Reasoning models served with a reasoning parser (LM Studio, vLLM, DeepSeek)
+  reasoning_content?: string | null;
+  reasoning?: string | null;
   tool_calls?: Array<{
     index: number;
     id?: string;
@@ -64,14 +83,181 @@ export interface StreamChunk {
   created: number;
   model: string;
   choices: StreamChoice[];
+  // Sent in a final chunk (with no choices) when stream_options.include_usage is set
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+  } | null;
+}
+
+export type StreamEvent =
+  | { type: 'content'; content: string }
+  | { type: 'reasoning'; content: string }
+  // The content received so far was reasoning after all (a chat template
+  // that opens <think> itself): drop it from the reply
+  | { type: 'retract'; content: string }
+  | { type: 'tool_calls'; tool_calls: ToolCall[] }
+  | { type: 'stats'; stats: ResponseStats }
+  // The response starts over (after a transient failure, or on another
+  // server): anything received so far from this call should be discarded
+  | { type: 'retry'; message: string }
+  | { type: 'failover'; message: string; server: string; model: string };
+
+export interface ClientOptions {
+  // Seconds to wait for the first token, then between chunks; 0 disables
+  requestTimeout?: number;
+  streamIdleTimeout?: number;
+  // Retries for transient failures before giving up (or failing over)
+  maxRetries?: number;
+  // Servers to try, in order, when the current one keeps failing
+  failoverServers?: LLMServer[];
+}
+
+class RequestTimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+/**
+ * Aborts a request that stops producing data: one deadline for the first
+ * chunk, then a shorter one that restarts with every chunk.
+ */
+class StreamWatchdog {
+  readonly controller = new AbortController();
+  timeout: RequestTimeoutError | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private onAbort = () => this.controller.abort();
+
+  constructor(
+    private signal: AbortSignal | undefined,
+    firstSeconds: number,
+    private idleSeconds: number
+  ) {
+    signal?.addEventListener('abort', this.onAbort, { once: true });
+    if (signal?.aborted) this.controller.abort();
+    this.arm(firstSeconds, `No response from the server within ${firstSeconds}s`);
+  }
+
+  touch(): void {
+    this.arm(this.idleSeconds, `Server stopped sending data for ${this.idleSeconds}s`);
+  }
+
+  dispose(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.signal?.removeEventListener('abort', this.onAbort);
+  }
+
+  private arm(seconds: number, message: string): void {
+    if (this.timer) clearTimeout(this.timer);
+    if (seconds <= 0) return;
+    this.timer = setTimeout(() => {
+      this.timeout = new RequestTimeoutError(message);
+      this.controller.abort();
+    }, seconds * 1000);
+  }
+}
+
+// Causes fetch gives for connections that couldn't be made or were dropped
+// (undici's own errors are UND_ERR_*)
+const NETWORK_ERROR_CODES = [
+  'ECONNREFUSED', 'ECONNRESET', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE', 'ENOTFOUND', 'EAI_AGAIN',
+  'EHOSTUNREACH', 'ENETUNREACH', 'ENETDOWN',
+];
+
+/**
+ * fetch reports network failures as a TypeError, "fetch failed" with the
+ * cause attached. Other TypeErrors are bugs, and retrying them won't help.
+ */
+function isNetworkError(error: unknown): boolean {
+  if (!(error instanceof TypeError)) return false;
+  // undici reports a socket closed mid-body as "terminated"
+  if (error.message === 'fetch failed' || error.message === 'terminated') return true;
+  const code = (error as Error & { cause?: { code?: string } }).cause?.code;
+  return typeof code === 'string' && (NETWORK_ERROR_CODES.includes(code) || code.startsWith('UND_ERR_'));
+}
+
+/** Failures worth retrying: dropped connections, timeouts, overloaded or restarting servers. */
+function isTransientError(error: unknown): boolean {
+  if (error instanceof HttpError) {
+    return error.status === 408 || error.status === 429 || error.status >= 500;
+  }
+  return error instanceof StreamInterruptedError || error instanceof RequestTimeoutError || isNetworkError(error);
+}
+
+function describeFailure(error: Error): string {
+  if (error instanceof HttpError) return `Server returned ${error.status}`;
+  if (error instanceof StreamInterruptedError || error.message === 'terminated') return 'Connection lost mid-response';
+  if (isNetworkError(error)) {
+    const cause = (error as Error & { cause?: { code?: string } }).cause;
+    return `Connection failed${cause?.code ? ` (${cause.code})` : ''}`;
+  }
+  return error.message;
+}
+
+// 1s, 2s, 4s... capped at 30s, with jitter so clients don't retry in lockstep
+function backoffDelay(attempt: number): number {
+  return Math.min(1000 * 2 ** attempt, 30000) + Math.floor(Math.random() * 250);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Aborted'));
+    };
+    // One signal lives through every retry of a turn; don't leave listeners on it
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Compare model ids across servers: "lmstudio-community/Qwen2.5-7B-GGUF@q4_k_m"
+// and "qwen2.5-7b" name the same model
+function modelKey(id: string): string {
+  return id
+    .toLowerCase()
+    .split('/')
+    .pop()!
+    .replace(/\.gguf$/, '')
+    .replace(/[@:]\S*$/, '')
+    .replace(/[-_.]gguf$/, '')
+    .replace(/[-_.](q\d\w*|iq\d\w*|f16|bf16|fp16|\d+bit)$/, '');
+}
+
+export function findCompatibleModel(models: Model[], model: string): string | undefined {
+  return models.find(m => m.id === model)?.id ?? models.find(m => modelKey(m.id) === modelKey(model))?.id;
 }
 
 export class LLMClient {
-  private baseUrl: string;
+  private server: LLMServer;
+  private provider: Provider;
+  private options: ClientOptions;
   private model: string | null = null;
+  private toolCallFormat: ToolCallFormat = 'auto';
+  private generation: GenerationParams = {};
 
-  constructor(host: string, port: number = 1234) {
-    this.baseUrl = `http://${host}:${port}/v1`;
+  constructor(server: LLMServer, options: ClientOptions = {}) {
+    this.server = server;
+    this.provider = createProvider(server);
+    this.options = options;
+  }
+
+  getServerName(): string {
+    return this.server.name;
+  }
+
+  /** Where requests go, e.g. http://localhost:1234/v1. */
+  getUrl(): string {
+    return this.provider.url;
+  }
+
+  getProviderType(): ProviderType {
+    return this.provider.type;
   }
 
   setModel(model: string): void {
@@ -82,125 +268,264 @@ export class LLMClient {
     return this.model;
   }
 
+  setToolCallFormat(format: ToolCallFormat): void {
+    this.toolCallFormat = format;
+  }
+
+  getToolCallFormat(): ToolCallFormat {
+    return this.toolCallFormat;
+  }
+
+  setGenerationParams(params: GenerationParams): void {
+    this.generation = params;
+  }
+
+  getGenerationParams(): GenerationParams {
+    return this.generation;
+  }
+
   async listModels(): Promise<Model[]> {
-    const response = await fetch(`${this.baseUrl}/models`);
-    if (!response.ok) {
-      throw new Error(`Failed to list models: ${response.status} ${response.statusText}`);
-    }
-    const data = (await response.json()) as ModelsResponse;
-    return data.data;
+    return this.provider.listModels();
   }
 
+  /**
+   * Ask the server how large a context the current model was loaded with.
+   * Returns null for servers that don't report it.
+   */
+  async getContextLength(): Promise<number | null> {
+    if (!this.model) return null;
+    return this.provider.getContextLength(this.model);
+  }
+
+  /**
+   * Stream a response. Transient failures are retried with backoff and, if
+   * failover servers are configured, moved to another server; each restart
+   * is announced with a retry or failover event.
+   */
   async *chatStream(
     messages: ChatMessage[],
-    tools?: ToolDefinition[]
-  ): AsyncGenerator<{ type: 'content'; content: string } | { type: 'tool_calls'; tool_calls: ToolCall[] }> {
+    tools?: ToolDefinition[],
+    signal?: AbortSignal
+  ): AsyncGenerator<StreamEvent> {
     if (!this.model) {
       throw new Error('No model selected. Call setModel() first.');
     }
 
-    const body: Record<string, unknown> = {
-      model: this.model,
-      messages,
-      stream: true,
-    };
+    const maxRetries = this.options.maxRetries ?? 0;
+    const tried = new Set([this.server.name]);
+
+    for (let attempt = 0; ; attempt++) {
+      const watchdog = new StreamWatchdog(signal, this.options.requestTimeout ?? 0, this.options.streamIdleTimeout ?? 0);
+      try {
+        yield* this.streamResponse(messages, tools, watchdog);
+        return;
+      } catch (error) {
+        const failure = (watchdog.timeout ?? error) as Error;
+        if (signal?.aborted || !isTransientError(failure)) throw failure;
+
+        if (attempt < maxRetries) {
+          const delay = backoffDelay(attempt);
+          yield {
+            type: 'retry',
+            message: `${describeFailure(failure)}; retrying in ${(delay / 1000).toFixed(0)}s (attempt ${attempt + 2} of ${maxRetries + 1})`,
+          };
+          await sleep(delay, signal);
+          continue;
+        }
 
-    if (tools && tools.length > 0) {
-      body.tools = tools;
-      body.tool_choice = 'auto';
+        const from = this.server.name;
+        const switched = await this.failover(tried);
+        if (!switched) throw failure;
+        yield {
+          type: 'failover',
+          message: `${describeFailure(failure)} on ${from}; switched to ${switched.server} (${switched.model})`,
+          ...switched,
+        };
+        attempt = -1;
+      } finally {
+        watchdog.dispose();
+      }
     }
+  }
 
-    const response = await fetch(`${this.baseUrl}/chat/completions`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(body),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Chat request failed: ${response.status} ${response.statusText}\n${errorText}`);
+  /**
+   * Move to the first untried failover server that has the current model or
+   * a build of it (another quantization or publisher).
+   */
+  private async failover(tried: Set<string>): Promise<{ server: string; model: string } | null> {
+    for (const server of this.options.failoverServers ?? []) {
+      if (tried.has(server.name)) continue;
+      tried.add(server.name);
+
+      try {
+        const provider = createProvider(server);
+        // Cleared either way, so a pending timer can't keep the process alive
+        let timer: NodeJS.Timeout | undefined;
+        const models = await Promise.race([
+          provider.listModels(),
+          new Promise<never>((_, reject) => {
+            timer = setTimeout(() => reject(new Error('timed out')), 10000);
+          }),
+        ]).finally(() => clearTimeout(timer));
+        const model = findCompatibleModel(models, this.model!);
+        if (!model) continue;
+
+        this.server = server;
+        this.provider = provider;
+        this.model = model;
+        return { server: server.name, model };
+      } catch {
+        // Unreachable too; try the next one
+      }
     }
+    return null;
+  }
 
-    if (!response.body) {
-      throw new Error('No response body');
+  private async *streamResponse(
+    messages: ChatMessage[],
+    tools: ToolDefinition[] | undefined,
+    watchdog: StreamWatchdog
+  ): AsyncGenerator<StreamEvent> {
+    const signal = watchdog.controller.signal;
+
+    const hasTools = !!tools && tools.length > 0;
+    let format = this.toolCallFormat;
+    const startedAt = Date.now();
+    let request = this.buildRequest(messages, hasTools ? tools : undefined, format);
+    let stream = this.provider.streamCompletion(request, signal);
+    let first: IteratorResult<CompletionDelta>;
+    try {
+      first = await stream.next();
+    } catch (error) {
+      // Some servers reject the tools field outright for models without a tool
+      // template; fall back to describing the tools in the prompt
+      const rejectedTools = error instanceof HttpError && error.status === 400 && /tool/i.test(error.body);
+      if (!rejectedTools || !hasTools || format !== 'auto') throw error;
+      format = 'hermes';
+      this.toolCallFormat = format;
+      request = this.buildRequest(messages, tools, format);
+      stream = this.provider.streamCompletion(request, signal);
+      first = await stream.next();
     }
 
-    const reader = response.body.getReader();
-    const decoder = new TextDecoder();
-    let buffer = '';
+    // Models that write tool calls as text get them pulled out of the content
+    const extractor = hasTools && format !== 'native' ? new TextToolCallExtractor(format, (tools ?? []).map(t => t.function.name)) : null;
+    const thinkSplitter = new ThinkTagSplitter();
+    const toEvents = (parts: ReturnType<ThinkTagSplitter['feed']>): StreamEvent[] => {
+      const events: StreamEvent[] = [];
+      for (const part of parts) {
+        if (part.type === 'retract') {
+          events.push({ type: 'retract', content: part.text });
+          continue;
+        }
+        // Reasoning is never scanned for tool calls
+        const content = part.type === 'content' && extractor ? extractor.feed(part.text) : part.text;
+        if (content) events.push({ type: part.type, content });
+      }
+      return events;
+    };
 
     // Accumulate tool calls across chunks
     const toolCallsMap = new Map<number, ToolCall>();
 
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      buffer += decoder.decode(value, { stream: true });
-      const lines = buffer.split('\n');
-      buffer = lines.pop() || '';
-
-      for (const line of lines) {
-        const trimmed = line.trim();
-        if (!trimmed || trimmed === 'data: [DONE]') continue;
-        if (!trimmed.startsWith('data: ')) continue;
-
-        try {
-          const json = JSON.parse(trimmed.slice(6)) as StreamChunk;
-          const choice = json.choices[0];
-          if (!choice) continue;
-
-          const delta = choice.delta;
-
-          // Handle content
-          if (delta.content) {
-            yield { type: 'content', content: delta.content };
-          }
-
-          // Handle tool calls
-          if (delta.tool_calls) {
-            for (const tc of delta.tool_calls) {
-              const index = tc.index;
-              let existing = toolCallsMap.get(index);
-
-              if (!existing) {
-                existing = {
-                  id: tc.id || '',
-                  type: 'function',
-                  function: {
-                    name: tc.function?.name || '',
-                    arguments: '',
-                  },
-                };
-                toolCallsMap.set(index, existing);
-              }
-
-              if (tc.id) existing.id = tc.id;
-              if (tc.function?.name) existing.function.name = tc.function.name;
-              if (tc.function?.arguments) existing.function.arguments += tc.function.arguments;
-            }
-          }
-
-          // Check if we're done
-          if (choice.finish_reason === 'tool_calls') {
-            const toolCalls = Array.from(toolCallsMap.values());
-            if (toolCalls.length > 0) {
-              yield { type: 'tool_calls', tool_calls: toolCalls };
-            }
-          }
-        } catch {
-          // Skip malformed JSON
+    let firstTokenAt: number | null = null;
+    let usage: CompletionDelta['usage'];
+    // Generated text, for estimating usage when the server doesn't report it
+    let generated = '';
+
+    let result = first;
+    while (!result.done) {
+      const delta = result.value;
+      // Role-only and keep-alive chunks don't count as progress
+      if (delta.content || delta.reasoning || delta.toolCalls?.length) watchdog.touch();
+      if (delta.usage) usage = delta.usage;
+      if (firstTokenAt === null && (delta.content || delta.reasoning || delta.toolCalls?.length)) {
+        firstTokenAt = Date.now();
+      }
+      generated += (delta.content ?? '') + (delta.reasoning ?? '');
+      for (const tc of delta.toolCalls ?? []) generated += (tc.name ?? '') + (tc.arguments ?? '');
+
+      if (delta.reasoning) {
+        yield { type: 'reasoning', content: delta.reasoning };
+      }
+
+      // Handle content, splitting out <think> blocks
+      if (delta.content) {
+        yield* toEvents(thinkSplitter.feed(delta.content));
+      }
+
+      // Handle tool calls
+      for (const tc of delta.toolCalls ?? []) {
+        let existing = toolCallsMap.get(tc.index);
+
+        if (!existing) {
+          existing = {
+            id: tc.id || '',
+            type: 'function',
+            function: {
+              name: tc.name || '',
+              arguments: '',
+            },
+          };
+          toolCallsMap.set(tc.index, existing);
         }
+
+        if (tc.id) existing.id = tc.id;
+        if (tc.name) existing.function.name = tc.name;
+        if (tc.arguments) existing.function.arguments += tc.arguments;
+      }
+
+      // Check if we're done
+      if (delta.finishReason === 'tool_calls' && toolCallsMap.size > 0) {
+        yield { type: 'tool_calls', tool_calls: Array.from(toolCallsMap.values()) };
+      }
+
+      result = await stream.next();
+    }
+
+    yield* toEvents(thinkSplitter.flush());
+    if (extractor) {
+      const rest = extractor.flush();
+      if (rest) {
+        yield { type: 'content', content: rest };
       }
     }
 
     // Final check for accumulated tool calls (in case finish_reason wasn't "tool_calls")
-    const toolCalls = Array.from(toolCallsMap.values());
+    const toolCalls = [...Array.from(toolCallsMap.values()), ...(extractor?.getToolCalls() ?? [])];
     if (toolCalls.length > 0 && toolCalls.some(tc => tc.function.name)) {
       yield { type: 'tool_calls', tool_calls: toolCalls };
     }
+
+    const finishedAt = Date.now();
+    const completionTokens = usage?.completionTokens ?? estimateTokens(generated);
+    const generationMs = firstTokenAt !== null ? finishedAt - firstTokenAt : 0;
+    yield {
+      type: 'stats',
+      stats: {
+        model: request.model,
+        promptTokens: usage?.promptTokens ?? estimateRequestTokens(request.messages, request.tools),
+        completionTokens,
+        estimated: !usage,
+        timeToFirstTokenMs: firstTokenAt !== null ? firstTokenAt - startedAt : null,
+        durationMs: finishedAt - startedAt,
+        // A reply that arrived in one chunk has no measurable rate
+        tokensPerSecond: generationMs > 0 && completionTokens > 0 ? completionTokens / (generationMs / 1000) : null,
+      },
+    };
+  }
+
+  private buildRequest(
+    messages: ChatMessage[],
+    tools: ToolDefinition[] | undefined,
+    format: ToolCallFormat
+  ): CompletionRequest {
+    return {
+      model: this.model!,
+      messages: tools && usesPromptTools(format) ? toPromptToolMessages(messages, tools, format) : messages,
+      tools: tools && !usesPromptTools(format) ? tools : undefined,
+      params: this.generation,
+    };
   }
 
   async testConnection(): Promise<boolean> {
@@ -212,3 +537,17 @@ export class LLMClient {
     }
   }
 }
+
+/**
+ * Build a client for a configured server, with timeouts, retries and
+ * failover servers taken from the config.
+ */
+export function createClient(server: LLMServer, config?: Config): LLMClient {
+  if (!config) return new LLMClient(server);
+  return new LLMClient(server, {
+    requestTimeout: config.requestTimeout,
+    streamIdleTimeout: config.streamIdleTimeout,
+    maxRetries: config.maxRetries,
+    failoverServers: config.failover ? config.servers.filter(s => s.name !== server.name) : [],
+  });
+}
@@ -1,49 +1,441 @@
 import { homedir } from 'os';
-import { join } from 'path';
-import { readFile, writeFile, mkdir } from 'fs/promises';
+import { join, dirname } from 'path';
+import { readFile, writeFile, mkdir, rename, rm, copyFile } from 'fs/promises';
 import { existsSync } from 'fs';
+import type { PermissionRule } from './permissions.js';
+import type { ToolCallFormat } from './toolparsers.js';
+import type { ProviderType } from './providers.js';
+import type { GenerationParams, GenerationSettings } from './params.js';
 
 export interface LLMServer {
   name: string;
   host: string;
   port: number;
+  // Backend type; lmstudio if unset
+  type?: ProviderType;
+  // Full URL such as https://llm.example.com/v1; overrides scheme, host and port
+  baseUrl?: string;
+  scheme?: 'http' | 'https';
+  // Sent as a bearer token. Prefer apiKeyEnv, which names an environment
+  // variable holding the key, so secrets stay out of ~/.aingel.json
+  apiKey?: string;
+  apiKeyEnv?: string;
+  // Extra headers for every request, e.g. for a reverse proxy
+  headers?: Record<string, string>;
+  // Sampling defaults for every model on this server
+  generation?: GenerationSettings;
 }
 
 export interface Config {
-  host: string;
-  port: number;
+  // Schema version; older files are migrated when loaded
+  version: number;
   recentFolders: string[];
   servers: LLMServer[];
   defaultServer?: string;
+  // Context window sizes in tokens, keyed by model id (or a substring of it)
+  contextLimits: Record<string, number>;
+  // Used when neither contextLimits nor the server knows the model's context
+  defaultContextLimit: number;
+  // Fraction of the context window at which history is compacted
+  compactThreshold: number;
+  // Tool permission rules for every project
+  permissions: PermissionRule[];
+  // Per-project rules, keyed by absolute project path
+  projectPermissions: Record<string, PermissionRule[]>;
+  // How each model emits tool calls, keyed by model id (or a substring of it)
+  toolCallFormats: Record<string, ToolCallFormat>;
+  // Stream reasoning models' thinking (dimmed) instead of a placeholder
+  showThinking: boolean;
+  // Format responses' markdown in the terminal (never when piped or with NO_COLOR)
+  renderMarkdown: boolean;
+  // Seconds to wait for the first token (this covers prompt processing, which
+  // is slow for long prompts) and then between streamed chunks
+  requestTimeout: number;
+  streamIdleTimeout: number;
+  // Retries for connection errors, timeouts and 5xx responses
+  maxRetries: number;
+  // Switch to another configured server with the same model when retries run out
+  failover: boolean;
+  // Sampling defaults for every server and model
+  generation: GenerationSettings;
+  // Per-model sampling settings, keyed by model id (or a substring of it)
+  modelGeneration: Record<string, GenerationSettings>;
+  // Named parameter sets; these add to (or replace) the built-in presets
+  presets: Record<string, GenerationParams>;
 }
 
+export const CONFIG_VERSION = 2;
+
 const CONFIG_PATH = join(homedir(), '.aingel.json');
 
+// Relative to the project root
+const PROJECT_CONFIG_FILE = join('.aingel', 'config.json');
+
 const DEFAULT_CONFIG: Config = {
-  host: '10.10.5.30',
-  port: 1234,
+  version: CONFIG_VERSION,
   recentFolders: [],
   servers: [],
+  contextLimits: {},
+  defaultContextLimit: 4096,
+  compactThreshold: 0.8,
+  permissions: [],
+  projectPermissions: {},
+  toolCallFormats: {},
+  showThinking: true,
+  renderMarkdown: true,
+  requestTimeout: 300,
+  streamIdleTimeout: 60,
+  maxRetries: 3,
+  failover: false,
+  generation: {},
+  modelGeneration: {},
+  presets: {},
 };
 
-export async function loadConfig(): Promise<Config> {
-  try {
-    if (!existsSync(CONFIG_PATH)) {
-      return { ...DEFAULT_CONFIG };
+/**
+ * Settings a project's .aingel/config.json may override. Servers and
+ * permissions stay in the user config so a checked-out repository can't
+ * redirect requests (and API keys) or grant its own tools permission.
+ */
+export const PROJECT_CONFIG_KEYS: Array<keyof Config> = [
+  'contextLimits',
+  'defaultContextLimit',
+  'compactThreshold',
+  'toolCallFormats',
+  'showThinking',
+  'renderMarkdown',
+  'requestTimeout',
+  'streamIdleTimeout',
+  'maxRetries',
+  'failover',
+  'generation',
+  'modelGeneration',
+  'presets',
+];
+
+/** A config file that can't be read, parsed or validated. */
+export class ConfigError extends Error {
+  constructor(
+    readonly path: string,
+    readonly problems: string[]
+  ) {
+    super(problems.length === 1
+      ? `Invalid config ${path}: ${problems[0]}`
+      : `Invalid config ${path}:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+type Raw = Record<string, unknown>;
+
+// A check adds a message to problems for each thing wrong at path
+type Check = (value: unknown, path: string, problems: string[]) => void;
+
+function describe(value: unknown): string {
+  return value === null ? 'null' : Array.isArray(value) ? 'a list' : typeof value === 'string' ? `"${value}"` : String(value);
+}
+
+const isRecord = (value: unknown): value is Raw =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** A check for a single value: test returns a problem, or null if the value is fine. */
+function leaf(test: (value: unknown) => string | null): Check {
+  return (value, path, problems) => {
+    const problem = test(value);
+    if (problem) problems.push(`${path}: ${problem}`);
+  };
+}
+
+const string = leaf(v => typeof v === 'string' ? null : `expected a string, got ${describe(v)}`);
+const boolean = leaf(v => typeof v === 'boolean' ? null : `expected true or false, got ${describe(v)}`);
+
+function number(min: number, max = Infinity, options: { integer?: boolean; exclusiveMin?: boolean } = {}): Check {
+  return leaf(v => {
+    const kind = options.integer ? 'a whole number' : 'a number';
+    if (typeof v !== 'number' || !Number.isFinite(v) || (options.integer && !Number.isInteger(v))) {
+      return `expected ${kind}, got ${describe(v)}`;
+    }
+    if (options.exclusiveMin ? v <= min : v < min) {
+      return `expected ${kind} ${options.exclusiveMin ? 'greater than' : 'of at least'} ${min}, got ${v}`;
+    }
+    if (v > max) {
+      return `expected ${kind} of at most ${max}, got ${v}`;
+    }
+    return null;
+  });
+}
+
+function oneOf(values: readonly string[]): Check {
+  return leaf(v => typeof v === 'string' && values.includes(v) ? null : `expected one of ${values.join(', ')}, got ${describe(v)}`);
+}
+
+function listOf(check: Check): Check {
+  return (value, path, problems) => {
+    if (!Array.isArray(value)) {
+      problems.push(`${path}: expected a list, got ${describe(value)}`);
+      return;
+    }
+    value.forEach((item, i) => check(item, `${path}[${i}]`, problems));
+  };
+}
+
+function recordOf(check: Check): Check {
+  return (value, path, problems) => {
+    if (!isRecord(value)) {
+      problems.push(`${path}: expected an object, got ${describe(value)}`);
+      return;
+    }
+    for (const [key, item] of Object.entries(value)) {
+      check(item, `${path}.${key}`, problems);
+    }
+  };
+}
+
+type Schema = Record<string, { check: Check; required?: boolean }>;
+
+function objectOf(schema: Schema): Check {
+  return (value, path, problems) => {
+    if (!isRecord(value)) {
+      problems.push(`${path}: expected an object, got ${describe(value)}`);
+      return;
+    }
+    for (const [key, rule] of Object.entries(schema)) {
+      if (value[key] === undefined) {
+        if (rule.required) problems.push(`${path}.${key}: missing`);
+      } else {
+        rule.check(value[key], `${path}.${key}`, problems);
+      }
+    }
+    for (const key of Object.keys(value)) {
+      if (!(key in schema)) problems.push(`${path}.${key}: unknown setting`);
+    }
+  };
+}
+
+const GENERATION_PARAMS_SCHEMA: Schema = {
+  temperature: { check: number(0) },
+  topP: { check: number(0, 1, { exclusiveMin: true }) },
+  maxTokens: { check: number(1, Infinity, { integer: true }) },
+  stop: { check: listOf(string) },
+  seed: { check: number(-Infinity, Infinity, { integer: true }) },
+};
+
+const GENERATION_SETTINGS_SCHEMA: Schema = {
+  ...GENERATION_PARAMS_SCHEMA,
+  preset: { check: string },
+};
+
+const SERVER_SCHEMA: Schema = {
+  name: { check: string, required: true },
+  host: { check: string, required: true },
+  port: { check: number(1, 65535, { integer: true }), required: true },
+  type: { check: oneOf(['lmstudio', 'llamacpp', 'openai', 'ollama']) },
+  baseUrl: { check: leaf(v => typeof v === 'string' && /^https?:\/\/\S+$/.test(v) ? null : `expected an http(s) URL, got ${describe(v)}`) },
+  scheme: { check: oneOf(['http', 'https']) },
+  apiKey: { check: string },
+  apiKeyEnv: { check: string },
+  headers: { check: recordOf(string) },
+  generation: { check: objectOf(GENERATION_SETTINGS_SCHEMA) },
+};
+
+const PERMISSION_RULE_SCHEMA: Schema = {
+  tool: { check: string, required: true },
+  action: { check: oneOf(['allow', 'deny', 'ask']), required: true },
+  path: { check: string },
+  command: { check: string },
+};
+
+const CONFIG_SCHEMA: Record<keyof Config, Schema[string]> = {
+  version: { check: number(1, Infinity, { integer: true }) },
+  recentFolders: { check: listOf(string) },
+  servers: { check: listOf(objectOf(SERVER_SCHEMA)) },
+  defaultServer: { check: string },
+  contextLimits: { check: recordOf(number(1, Infinity, { integer: true })) },
+  defaultContextLimit: { check: number(1, Infinity, { integer: true }) },
+  compactThreshold: { check: number(0, 1, { exclusiveMin: true }) },
+  permissions: { check: listOf(objectOf(PERMISSION_RULE_SCHEMA)) },
+  projectPermissions: { check: recordOf(listOf(objectOf(PERMISSION_RULE_SCHEMA))) },
+  toolCallFormats: { check: recordOf(oneOf(['native', 'auto', 'hermes', 'mistral', 'json'])) },
+  showThinking: { check: boolean },
+  renderMarkdown: { check: boolean },
+  requestTimeout: { check: number(0) },
+  streamIdleTimeout: { check: number(0) },
+  maxRetries: { check: number(0, Infinity, { integer: true }) },
+  failover: { check: boolean },
+  generation: { check: objectOf(GENERATION_SETTINGS_SCHEMA) },
+  modelGeneration: { check: recordOf(objectOf(GENERATION_SETTINGS_SCHEMA)) },
+  presets: { check: recordOf(objectOf(GENERATION_PARAMS_SCHEMA)) },
+};
+
+/**
+ * Check a parsed config file against the schema. Returns readable problems
+ * such as "servers[1].port: expected a whole number from 1 to 65535, got 0".
+ */
+export function validateConfig(raw: unknown, scope: 'user' | 'project' = 'user'): string[] {
+  const problems: string[] = [];
+  if (!isRecord(raw)) {
+    return [`expected a JSON object, got ${describe(raw)}`];
+  }
+  for (const [key, value] of Object.entries(raw)) {
+    const rule = CONFIG_SCHEMA[key as keyof Config];
+    if (!rule) {
+      problems.push(`${key}: unknown setting`);
+    } else if (scope === 'project' && key !== 'version' && !PROJECT_CONFIG_KEYS.includes(key as keyof Config)) {
+      problems.push(`${key}: can only be set in ${CONFIG_PATH}`);
+    } else if (value !== undefined) {
+      rule.check(value, key, problems);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Upgrades from each version to the next, keyed by the version they upgrade
+ * from. Files without a version field are version 1.
+ */
+const MIGRATIONS: Record<number, (raw: Raw) => void> = {
+  // Version 1 kept a legacy host and port beside servers, used only when
+  // servers was empty; fold it into servers
+  1: raw => {
+    const { host, port } = raw;
+    delete raw.host;
+    delete raw.port;
+    const servers = Array.isArray(raw.servers) ? raw.servers : [];
+    if (typeof host === 'string' && host && servers.length === 0) {
+      raw.servers = [{ name: 'default', host, port: typeof port === 'number' ? port : 1234 }];
+      raw.defaultServer ??= 'default';
     }
-    const data = await readFile(CONFIG_PATH, 'utf-8');
-    const config = JSON.parse(data) as Partial<Config>;
-    return {
-      ...DEFAULT_CONFIG,
-      ...config,
-    };
-  } catch {
-    return { ...DEFAULT_CONFIG };
+  },
+};
+
+/** Bring a parsed file up to CONFIG_VERSION. Returns true if anything changed. */
+function migrate(raw: Raw, path: string): boolean {
+  let version = raw.version === undefined ? 1 : raw.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new ConfigError(path, [`version: expected a whole number, got ${describe(version)}`]);
+  }
+  if (version > CONFIG_VERSION) {
+    throw new ConfigError(path, [`version ${version} is newer than this version of aingel supports (${CONFIG_VERSION}); please upgrade`]);
+  }
+
+  const migrated = version < CONFIG_VERSION;
+  for (; version < CONFIG_VERSION; version++) {
+    MIGRATIONS[version](raw);
+  }
+  raw.version = CONFIG_VERSION;
+  return migrated;
+}
+
+/** Read and parse a JSON config file, or null if it doesn't exist. */
+async function readConfigFile(path: string): Promise<Raw | null> {
+  if (!existsSync(path)) return null;
+
+  let data: string;
+  try {
+    data = await readFile(path, 'utf-8');
+  } catch (error) {
+    throw new ConfigError(path, [(error as Error).message]);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(data);
+  } catch (error) {
+    // Point at the line, since people edit this file by hand
+    const message = (error as Error).message;
+    const position = message.match(/position (\d+)/);
+    const where = position ? ` (line ${data.slice(0, Number(position[1])).split('\n').length})` : '';
+    throw new ConfigError(path, [`not valid JSON${where}: ${message}`]);
+  }
+  if (!isRecord(raw)) {
+    throw new ConfigError(path, [`expected a JSON object, got ${describe(raw)}`]);
+  }
+  return raw;
+}
+
+/**
+ * Write via a temporary file and rename, so a crash can't leave a
+ * half-written file. The user config may hold API keys, so it's private.
+ */
+async function writeConfigFile(path: string, value: unknown, mode = 0o644): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  const temp = `${path}.${process.pid}.tmp`;
+  try {
+    await writeFile(temp, JSON.stringify(value, null, 2) + '\n', { encoding: 'utf-8', mode });
+    await rename(temp, path);
+  } catch (error) {
+    await rm(temp, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Load ~/.aingel.json, migrating it to the current version (the original is
+ * kept as ~/.aingel.json.bak). Throws ConfigError rather than falling back to
+ * defaults, so a bad edit is reported instead of overwritten.
+ */
+export async function loadConfig(): Promise<Config> {
+  const raw = await readConfigFile(CONFIG_PATH);
+  if (!raw) {
+    return structuredClone(DEFAULT_CONFIG);
+  }
+
+  const migrated = migrate(raw, CONFIG_PATH);
+  const problems = validateConfig(raw);
+  if (problems.length > 0) {
+    throw new ConfigError(CONFIG_PATH, problems);
+  }
+
+  const config = { ...structuredClone(DEFAULT_CONFIG), ...raw } as Config;
+  if (migrated) {
+    await copyFile(CONFIG_PATH, `${CONFIG_PATH}.bak`);
+    await saveConfig(config);
   }
+  return config;
 }
 
 export async function saveConfig(config: Config): Promise<void> {
-  await writeFile(CONFIG_PATH, JSON.stringify(config, null, 2), 'utf-8');
+  await writeConfigFile(CONFIG_PATH, { ...config, version: CONFIG_VERSION }, 0o600);
+}
+
+export function getProjectConfigPath(projectRoot: string): string {
+  return join(projectRoot, PROJECT_CONFIG_FILE);
+}
+
+/** The project's .aingel/config.json as written (validated), or {} if there is none. */
+export async function loadProjectConfig(projectRoot: string): Promise<Partial<Config>> {
+  const path = getProjectConfigPath(projectRoot);
+  const raw = await readConfigFile(path);
+  if (!raw) return {};
+
+  migrate(raw, path);
+  const problems = validateConfig(raw, 'project');
+  if (problems.length > 0) {
+    throw new ConfigError(path, problems);
+  }
+  return raw as Partial<Config>;
+}
+
+export async function saveProjectConfig(projectRoot: string, config: Partial<Config>): Promise<void> {
+  await writeConfigFile(getProjectConfigPath(projectRoot), { version: CONFIG_VERSION, ...config });
+}
+
+/**
+ * The user config with the project's overrides applied. Keyed settings
+ * (contextLimits, presets, ...) are merged entry by entry; others replaced.
+ * Don't save the result: use loadConfig() for changes.
+ */
+export async function loadEffectiveConfig(projectRoot: string): Promise<Config> {
+  const config = await loadConfig();
+  const project = await loadProjectConfig(projectRoot);
+
+  for (const key of PROJECT_CONFIG_KEYS) {
+    const value = project[key];
+    if (value === undefined) continue;
+    const current = config[key];
+    (config as unknown as Raw)[key] = isRecord(current) && isRecord(value) ? { ...current, ...value } : value;
+  }
+  return config;
 }
 
 export async function addRecentFolder(folder: string): Promise<void> {
@@ -59,13 +451,6 @@ export async function addRecentFolder(folder: string): Promise<void> {
   await saveConfig(config);
 }
 
-export async function updateHost(host: string, port: number = 1234): Promise<void> {
-  const config = await loadConfig();
-  config.host = host;
-  config.port = port;
-  await saveConfig(config);
-}
-
 export async function addServer(server: LLMServer): Promise<void> {
   const config = await loadConfig();
   // Remove if exists (by name), then add
@@ -0,0 +1,124 @@
+import chalk from 'chalk';
+import {
+  loadConfig,
+  loadEffectiveConfig,
+  loadProjectConfig,
+  saveConfig,
+  saveProjectConfig,
+  validateConfig,
+  getConfigPath,
+  getProjectConfigPath,
+  Config,
+  ConfigError,
+} from './config.js';
+
+const CONFIG_USAGE = `Usage:
+  aingel config path [--project]
+  aingel config get [key]
+  aingel config set <key> <value> [--project]
+
+Keys are dotted paths, e.g. maxRetries, toolCallFormats.qwen or servers.0.port.
+Values are parsed as JSON when they can be (0.2, true, ["a","b"]), otherwise
+kept as strings. --project writes .aingel/config.json in the current folder.`;
+
+function splitKey(key: string): string[] {
+  return key.split('.').filter(Boolean);
+}
+
+function getAt(value: unknown, path: string[]): unknown {
+  let current = value;
+  for (const part of path) {
+    if (typeof current !== 'object' || current === null) return undefined;
+    current = (current as Record<string, unknown>)[part];
+  }
+  return current;
+}
+
+/** Set a value at a dotted path, creating objects along the way. */
+function setAt(target: Record<string, unknown>, path: string[], value: unknown): void {
+  let current: Record<string, unknown> = target;
+  for (const part of path.slice(0, -1)) {
+    const next = current[part];
+    if (typeof next !== 'object' || next === null) {
+      current[part] = {};
+    }
+    current = current[part] as Record<string, unknown>;
+  }
+  current[path[path.length - 1]] = value;
+}
+
+function parseValue(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * `aingel config ...`: read and change settings from scripts. get shows the
+ * effective value for the current folder (user config plus project
+ * overrides); set validates the result before writing. Returns the exit code.
+ */
+export async function runConfigCommand(args: string[]): Promise<number> {
+  const project = args.includes('--project');
+  const [sub = 'help', key, ...rest] = args.filter(a => a !== '--project');
+  const projectRoot = process.cwd();
+  const fail = (message: string): number => {
+    process.stderr.write(chalk.red(`aingel: ${message}\n`));
+    return 2;
+  };
+
+  try {
+    switch (sub) {
+      case 'path':
+        console.log(project ? getProjectConfigPath(projectRoot) : getConfigPath());
+        return 0;
+
+      case 'get': {
+        const config = await loadEffectiveConfig(projectRoot);
+        const value = key ? getAt(config, splitKey(key)) : config;
+        if (value === undefined) {
+          return fail(`${key} is not set`);
+        }
+        console.log(typeof value === 'string' ? value : JSON.stringify(value, null, 2));
+        return 0;
+      }
+
+      case 'set': {
+        const path = key ? splitKey(key) : [];
+        if (path.length === 0 || rest.length === 0) {
+          return fail(`set needs a key and a value\n${CONFIG_USAGE}`);
+        }
+        const value = parseValue(rest.join(' '));
+
+        // Validate the changed copy so a bad value never reaches the file
+        const target = (project ? await loadProjectConfig(projectRoot) : await loadConfig()) as Record<string, unknown>;
+        setAt(target, path, value);
+        const problems = validateConfig(target, project ? 'project' : 'user');
+        if (problems.length > 0) {
+          return fail(`not saved: ${problems.join('; ')}`);
+        }
+
+        if (project) {
+          await saveProjectConfig(projectRoot, target);
+        } else {
+          await saveConfig(target as unknown as Config);
+        }
+        console.log(`${key} = ${JSON.stringify(value)} (${project ? getProjectConfigPath(projectRoot) : getConfigPath()})`);
+        return 0;
+      }
+
+      case 'help':
+      case '--help':
+        console.log(CONFIG_USAGE);
+        return 0;
+
+      default:
+        return fail(`unknown config command: ${sub}\n${CONFIG_USAGE}`);
+    }
+  } catch (error) {
+    if (error instanceof ConfigError) return fail(error.message);
+    throw error;
+  }
+}
@@ -0,0 +1,213 @@
+import type { LLMClient, ChatMessage, ToolDefinition } from './client.js';
+import type { Config } from './config.js';
+
+export interface ContextLimit {
+  tokens: number;
+  source: 'config' | 'server' | 'default';
+}
+
+// Rough average for code and English with common BPE tokenizers. Slightly
+// pessimistic so compaction triggers before the server's real limit.
+const CHARS_PER_TOKEN = 3.5;
+
+// Per-message framing added by chat templates (role markers, separators)
+const MESSAGE_OVERHEAD = 4;
+
+// Tool outputs larger than this are cut down to head and tail when compacting
+const MAX_TOOL_OUTPUT_TOKENS = 1500;
+
+// Number of most recent user turns kept verbatim when summarizing
+const KEEP_RECENT_TURNS = 2;
+
+export const SUMMARY_PREFIX = '[Summary of earlier conversation]';
+
+export function estimateTokens(text: string | null | undefined): number {
+  if (!text) return 0;
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateMessageTokens(message: ChatMessage): number {
+  let tokens = MESSAGE_OVERHEAD + estimateTokens(message.content);
+  for (const toolCall of message.tool_calls ?? []) {
+    tokens += MESSAGE_OVERHEAD + estimateTokens(toolCall.function.name) + estimateTokens(toolCall.function.arguments);
+  }
+  return tokens;
+}
+
+/**
+ * Estimate the prompt size of a request: every message plus the tool schemas,
+ * which the server also injects into the prompt.
+ */
+export function estimateRequestTokens(messages: ChatMessage[], tools?: ToolDefinition[]): number {
+  const messageTokens = messages.reduce((sum, m) => sum + estimateMessageTokens(m), 0);
+  return messageTokens + (tools?.length ? estimateTokens(JSON.stringify(tools)) : 0);
+}
+
+/**
+ * Resolve the context window for the client's current model: an explicit
+ * entry in config.contextLimits wins, then what the server reports, then the
+ * configured default.
+ */
+export async function resolveContextLimit(client: LLMClient, config: Config): Promise<ContextLimit> {
+  const model = client.getModel() ?? '';
+  const limits = config.contextLimits ?? {};
+  if (limits[model]) {
+    return { tokens: limits[model], source: 'config' };
+  }
+  const partial = Object.keys(limits).find(key => model.toLowerCase().includes(key.toLowerCase()));
+  if (partial) {
+    return { tokens: limits[partial], source: 'config' };
+  }
+
+  const reported = await client.getContextLength();
+  if (reported) {
+    return { tokens: reported, source: 'server' };
+  }
+  return { tokens: config.defaultContextLimit, source: 'default' };
+}
+
+function truncateMiddle(text: string, maxTokens: number): string {
+  const maxChars = Math.floor(maxTokens * CHARS_PER_TOKEN);
+  if (text.length <= maxChars) return text;
+  const half = Math.floor(maxChars / 2);
+  const omitted = text.length - half * 2;
+  return `${text.slice(0, half)}\n\n[... ${omitted} characters truncated to save context ...]\n\n${text.slice(-half)}`;
+}
+
+/**
+ * Shrink oversized tool outputs, leaving the last `keepRecent` messages alone
+ * so the model still sees the results it is currently working with.
+ * Returns the number of outputs truncated.
+ */
+export function truncateToolOutputs(messages: ChatMessage[], keepRecent: number = 0): number {
+  let truncated = 0;
+  const end = Math.max(messages.length - keepRecent, 0);
+  for (let i = 0; i < end; i++) {
+    const message = messages[i];
+    if (message.role !== 'tool' || !message.content) continue;
+    if (estimateTokens(message.content) <= MAX_TOOL_OUTPUT_TOKENS) continue;
+    message.content = truncateMiddle(message.content, MAX_TOOL_OUTPUT_TOKENS);
+    truncated++;
+  }
+  return truncated;
+}
+
+function renderTranscript(messages: ChatMessage[], maxTokens: number): string {
+  const parts: string[] = [];
+  for (const message of messages) {
+    const content = message.content ? truncateMiddle(message.content, 400) : '';
+    switch (message.role) {
+      case 'user':
+        parts.push(`User: ${content}`);
+        break;
+      case 'assistant':
+        if (content) parts.push(`Assistant: ${content}`);
+        for (const toolCall of message.tool_calls ?? []) {
+          parts.push(`Assistant called ${toolCall.function.name}(${truncateMiddle(toolCall.function.arguments, 100)})`);
+        }
+        break;
+      case 'tool':
+        parts.push(`Tool result: ${content}`);
+        break;
+    }
+  }
+
+  // Keep the newest part of the transcript if it still doesn't fit
+  let transcript = parts.join('\n\n');
+  const maxChars = Math.floor(maxTokens * CHARS_PER_TOKEN);
+  if (transcript.length > maxChars) {
+    transcript = `[... earliest messages omitted ...]\n\n${transcript.slice(-maxChars)}`;
+  }
+  return transcript;
+}
+
+async function summarize(client: LLMClient, messages: ChatMessage[], limit: number): Promise<string> {
+  const transcript = renderTranscript(messages, Math.floor(limit * 0.6));
+  const request: ChatMessage[] = [
+    {
+      role: 'system',
+      content: 'You summarize coding-assistant conversations so they can continue with less context. Be factual and terse.',
+    },
+    {
+      role: 'user',
+      content: `Summarize the conversation below. Keep: the user's goals and requests, decisions made, files read or changed (with paths), commands run and their outcomes, and any unfinished work. Drop pleasantries and file contents that can be re-read.\n\n${transcript}`,
+    },
+  ];
+
+  let summary = '';
+  for await (const chunk of client.chatStream(request)) {
+    if (chunk.type === 'content') summary += chunk.content;
+    if (chunk.type === 'retry' || chunk.type === 'failover' || chunk.type === 'retract') summary = '';
+  }
+  summary = summary.trim();
+  if (!summary) {
+    throw new Error('Model returned an empty summary');
+  }
+  return summary;
+}
+
+export interface CompactionResult {
+  messages: ChatMessage[];
+  summarizedCount: number;
+  truncatedCount: number;
+  tokensBefore: number;
+  tokensAfter: number;
+}
+
+/**
+ * Compact a history (system prompt first) to fit the context window. Old tool
+ * outputs are truncated first; if that isn't enough, or `force` is set, all
+ * but the last few user turns are replaced by a model-written summary.
+ */
+export async function compactHistory(
+  client: LLMClient,
+  history: ChatMessage[],
+  limit: number,
+  targetTokens: number,
+  tools?: ToolDefinition[],
+  force: boolean = false
+): Promise<CompactionResult> {
+  const tokensBefore = estimateRequestTokens(history, tools);
+  const [system, ...rest] = history;
+  const messages = rest.map(m => ({ ...m }));
+
+  // Never touch the latest exchange, the model may still need it verbatim
+  const lastUser = messages.map(m => m.role).lastIndexOf('user');
+  const truncatedCount = truncateToolOutputs(messages, lastUser === -1 ? 0 : messages.length - lastUser);
+
+  let result = [system, ...messages];
+  let summarizedCount = 0;
+
+  if (force || estimateRequestTokens(result, tools) > targetTokens) {
+    // Split on a user message so tool calls stay paired with their results
+    const userIndexes = messages.map((m, i) => (m.role === 'user' ? i : -1)).filter(i => i !== -1);
+    const split = userIndexes.length > KEEP_RECENT_TURNS
+      ? userIndexes[userIndexes.length - KEEP_RECENT_TURNS]
+      : userIndexes[userIndexes.length - 1] ?? 0;
+
+    const older = messages.slice(0, split);
+    if (older.length > 0) {
+      const summary = await summarize(client, older, limit);
+      result = [
+        system,
+        { role: 'user', content: `${SUMMARY_PREFIX}\n${summary}` },
+        { role: 'assistant', content: 'Understood. I will continue from that summary.' },
+        ...messages.slice(split),
+      ];
+      summarizedCount = older.length;
+    }
+
+    // The recent turns alone may still be too big; shrink their tool outputs too
+    if (estimateRequestTokens(result, tools) > targetTokens) {
+      truncateToolOutputs(result, 0);
+    }
+  }
+
+  return {
+    messages: result,
+    summarizedCount,
+    truncatedCount,
+    tokensBefore,
+    tokensAfter: estimateRequestTokens(result, tools),
+  };
+}
@@ -0,0 +1,141 @@
+import chalk from 'chalk';
+
+interface DiffOp {
+  type: ' ' | '-' | '+';
+  line: string;
+}
+
+// Above this many LCS cells, fall back to "replace everything" rather than
+// allocating a huge table
+const MAX_LCS_CELLS = 4_000_000;
+
+function splitLines(text: string | null): string[] {
+  if (!text) return [];
+  const lines = text.split(/\r?\n/);
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: DiffOp[] = a.slice(0, start).map(line => ({ type: ' ', line }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+
+  if (n * m > MAX_LCS_CELLS) {
+    ops.push(...midA.map(line => ({ type: '-' as const, line })));
+    ops.push(...midB.map(line => ({ type: '+' as const, line })));
+  } else {
+    // lcs[i][j] = length of the LCS of midA[i..] and midB[j..]
+    const width = m + 1;
+    const lcs = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * width + j] = midA[i] === midB[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && midA[i] === midB[j]) {
+        ops.push({ type: ' ', line: midA[i] });
+        i++;
+        j++;
+      } else if (i < n && (j === m || lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+        ops.push({ type: '-', line: midA[i] });
+        i++;
+      } else {
+        ops.push({ type: '+', line: midB[j] });
+        j++;
+      }
+    }
+  }
+
+  ops.push(...a.slice(endA).map(line => ({ type: ' ' as const, line })));
+  return ops;
+}
+
+/**
+ * Build a unified diff between two versions of a file. A null side means the
+ * file does not exist (creation or deletion). Returns an empty string when
+ * the contents are identical.
+ */
+export function createUnifiedDiff(
+  path: string,
+  before: string | null,
+  after: string | null,
+  context: number = 3
+): string {
+  const ops = diffLines(splitLines(before), splitLines(after));
+  const changed = ops.map((op, i) => (op.type === ' ' ? -1 : i)).filter(i => i !== -1);
+  if (changed.length === 0) return '';
+
+  const out = [
+    `--- ${before === null ? '/dev/null' : `a/${path}`}`,
+    `+++ ${after === null ? '/dev/null' : `b/${path}`}`,
+  ];
+
+  // Line numbers (1-based) of each op in the old and new files
+  const oldLine: number[] = [];
+  const newLine: number[] = [];
+  let o = 1;
+  let nw = 1;
+  for (const op of ops) {
+    oldLine.push(o);
+    newLine.push(nw);
+    if (op.type !== '+') o++;
+    if (op.type !== '-') nw++;
+  }
+
+  let k = 0;
+  while (k < changed.length) {
+    const hunkStart = Math.max(changed[k] - context, 0);
+    let hunkEnd = changed[k];
+    while (k + 1 < changed.length && changed[k + 1] - hunkEnd <= context * 2) {
+      hunkEnd = changed[++k];
+    }
+    k++;
+    hunkEnd = Math.min(hunkEnd + context, ops.length - 1);
+
+    const slice = ops.slice(hunkStart, hunkEnd + 1);
+    const oldCount = slice.filter(op => op.type !== '+').length;
+    const newCount = slice.filter(op => op.type !== '-').length;
+    const oldStart = oldCount === 0 ? oldLine[hunkStart] - 1 : oldLine[hunkStart];
+    const newStart = newCount === 0 ? newLine[hunkStart] - 1 : newLine[hunkStart];
+    out.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    out.push(...slice.map(op => op.type + op.line));
+  }
+
+  return out.join('\n');
+}
+
+/**
+ * Colorize a unified diff for the terminal, showing at most maxLines lines.
+ */
+export function colorizeDiff(diff: string, maxLines: number = 200): string {
+  const lines = diff.split('\n');
+  const shown = lines.slice(0, maxLines).map(line => {
+    if (line.startsWith('---') || line.startsWith('+++')) return chalk.bold(line);
+    if (line.startsWith('@@')) return chalk.cyan(line);
+    if (line.startsWith('+')) return chalk.green(line);
+    if (line.startsWith('-')) return chalk.red(line);
+    return chalk.gray(line);
+  });
+  if (lines.length > maxLines) {
+    shown.push(chalk.gray(`... ${lines.length - maxLines} more lines`));
+  }
+  return shown.join('\n');
+}
@@ -0,0 +1,24 @@
+import { readFileSync, writeFileSync, rmSync } from 'fs';
+import { join, basename } from 'path';
+import { tmpdir } from 'os';
+import { spawnSync } from 'child_process';
+
+/**
+ * Open content in $VISUAL or $EDITOR (vi, or notepad on Windows) and return
+ * what was saved. `name` becomes part of the temp file name, so the editor
+ * can pick a syntax mode from its extension.
+ */
+export function openInEditor(name: string, content: string): string {
+  const editor = process.env.VISUAL || process.env.EDITOR || (process.platform === 'win32' ? 'notepad' : 'vi');
+  const tempPath = join(tmpdir(), `aingel-${Date.now()}-${basename(name)}`);
+  writeFileSync(tempPath, content, 'utf-8');
+  try {
+    const result = spawnSync(`${editor} "${tempPath}"`, { stdio: 'inherit', shell: true });
+    if (result.status !== 0) {
+      throw new Error(`Editor exited with status ${result.status}`);
+    }
+    return readFileSync(tempPath, 'utf-8');
+  } finally {
+    rmSync(tempPath, { force: true });
+  }
+}
@@ -0,0 +1,130 @@
+import { readdir, readFile, open } from 'fs/promises';
+import { join, resolve, relative } from 'path';
+import { minimatch } from 'minimatch';
+
+// Read in every directory that has them; .aingelignore hides files from the
+// assistant that git still tracks
+const IGNORE_FILES = ['.gitignore', '.aingelignore'];
+
+// Skipped even without an ignore file
+const ALWAYS_IGNORED = ['.git', 'node_modules'];
+
+// Longer lines (minified code, data) are cut when shown to the model
+const MAX_LINE_LENGTH = 2000;
+
+/** One line of a .gitignore, relative to the directory holding the file. */
+export interface IgnoreRule {
+  base: string;
+  pattern: string;
+  negate: boolean;
+  dirOnly: boolean;
+  // Patterns with a slash match from base; others match a name at any depth
+  anchored: boolean;
+}
+
+export function parseIgnoreFile(content: string, base: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const raw of content.split(/\r?\n/)) {
+    let line = raw.replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) continue;
+
+    const negate = line.startsWith('!');
+    if (negate) line = line.slice(1);
+    line = line.replace(/^\\([#!])/, '$1');
+
+    const dirOnly = line.endsWith('/');
+    if (dirOnly) line = line.slice(0, -1);
+    const anchored = line.includes('/');
+    line = line.replace(/^\//, '');
+    if (line) rules.push({ base, pattern: line, negate, dirOnly, anchored });
+  }
+  return rules;
+}
+
+/** Git's rule: the last matching pattern decides, and "!" re-includes. */
+export function isIgnored(rules: IgnoreRule[], path: string, isDir: boolean): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDir) continue;
+    if (rule.base && !path.startsWith(rule.base + '/')) continue;
+    const relative = rule.base ? path.slice(rule.base.length + 1) : path;
+    const matches = rule.anchored
+      ? minimatch(relative, rule.pattern, { dot: true })
+      : minimatch(relative.split('/').pop()!, rule.pattern, { dot: true });
+    if (matches) ignored = !rule.negate;
+  }
+  return ignored;
+}
+
+async function readIgnoreRules(dir: string, base: string): Promise<IgnoreRule[]> {
+  const rules: IgnoreRule[] = [];
+  for (const name of IGNORE_FILES) {
+    try {
+      rules.push(...parseIgnoreFile(await readFile(join(dir, name), 'utf-8'), base));
+    } catch {
+      // No such file here
+    }
+  }
+  return rules;
+}
+
+/**
+ * Project files (relative, with forward slashes) matching a glob, skipping
+ * whatever .gitignore and .aingelignore exclude. Ignored directories are not
+ * walked at all, so build output and dependency folders cost nothing.
+ */
+export async function listProjectFiles(projectRoot: string, pattern = '**/*'): Promise<string[]> {
+  const files: string[] = [];
+
+  const walk = async (dir: string, rel: string, inherited: IgnoreRule[]): Promise<void> => {
+    const rules = [...inherited, ...(await readIgnoreRules(dir, rel))];
+    let entries;
+    try {
+      entries = await readdir(dir, { withFileTypes: true });
+    } catch {
+      return; // Unreadable directory
+    }
+
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      const path = rel ? `${rel}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (ALWAYS_IGNORED.includes(entry.name) || isIgnored(rules, path, true)) continue;
+        await walk(join(dir, entry.name), path, rules);
+      } else if ((entry.isFile() || entry.isSymbolicLink()) && !isIgnored(rules, path, false)) {
+        if (minimatch(path, pattern)) files.push(path);
+      }
+    }
+  };
+
+  await walk(projectRoot, '', []);
+  return files;
+}
+
+/** A NUL byte in the first 8 KB is how git decides a file is binary, too. */
+export async function isBinaryFile(path: string): Promise<boolean> {
+  const handle = await open(path, 'r');
+  try {
+    const buffer = Buffer.alloc(8000);
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+    return buffer.subarray(0, bytesRead).includes(0);
+  } finally {
+    await handle.close();
+  }
+}
+
+/** Whether a path given by the model or the user stays inside the project. */
+export function isPathSafe(projectRoot: string, requestedPath: string): boolean {
+  const absolutePath = resolve(projectRoot, requestedPath);
+  const relativePath = relative(projectRoot, absolutePath);
+  return !relativePath.startsWith('..') && !relativePath.startsWith('/');
+}
+
+export function truncateLine(line: string): string {
+  return line.length > MAX_LINE_LENGTH ? `${line.slice(0, MAX_LINE_LENGTH)}... [line cut at ${MAX_LINE_LENGTH} characters]` : line;
+}
+
+/** Lines prefixed with their line numbers, right-aligned, as read_file shows them. */
+export function numberLines(lines: string[], firstLine: number): string {
+  const width = String(firstLine + lines.length - 1).length;
+  return lines.map((line, i) => `${String(firstLine + i).padStart(width)}\t${truncateLine(line)}`).join('\n');
+}
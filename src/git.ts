@@ -0,0 +1,152 @@
+import { execFile } from 'child_process';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import type { LLMClient, ChatMessage } from './client.js';
+import { createUnifiedDiff } from './diff.js';
+
+const MAX_GIT_OUTPUT = 20 * 1024 * 1024;
+// Diff sent to the model when drafting a commit message
+const MAX_COMMIT_DIFF = 24000;
+
+/** Branch and dirty state, for the system prompt. */
+export interface GitState {
+  // Branch name, or "detached at <sha>"
+  branch: string;
+  // Any uncommitted or untracked files. Kept to a yes/no so the system prompt
+  // doesn't change with every edit
+  dirty: boolean;
+}
+
+/** Run git in the project and return its output. Throws with git's own message. */
+export function runGit(projectRoot: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      'git',
+      ['-c', 'core.quotepath=off', ...args],
+      { cwd: projectRoot, maxBuffer: MAX_GIT_OUTPUT },
+      (error, stdout, stderr) => {
+        if (!error) {
+          resolve(stdout);
+        } else if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          reject(new Error('git is not installed'));
+        } else {
+          reject(new Error(stderr.trim().replace(/^fatal: /, '') || error.message));
+        }
+      }
+    );
+  });
+}
+
+/** The branch and whether there are uncommitted changes, or null outside a git repository. */
+export async function getGitState(projectRoot: string): Promise<GitState | null> {
+  let output: string;
+  try {
+    output = await runGit(projectRoot, ['status', '--porcelain=v1', '--branch']);
+  } catch {
+    return null;
+  }
+
+  const [header, ...files] = output.split('\n').filter(Boolean);
+  // "## main...origin/main [ahead 1]", "## No commits yet on main" or "## HEAD (no branch)"
+  let branch = header.slice(3).replace(/^No commits yet on /, '').replace(/\.\.\..*$/, '').replace(/ \[.*\]$/, '');
+  if (branch === 'HEAD (no branch)') {
+    const sha = await runGit(projectRoot, ['rev-parse', '--short', 'HEAD']).catch(() => '');
+    branch = `detached at ${sha.trim() || 'unknown commit'}`;
+  }
+  return { branch, dirty: files.length > 0 };
+}
+
+/** Uncommitted files as git status paths (renames give the new path). */
+export async function listChangedFiles(projectRoot: string): Promise<{ tracked: string[]; untracked: string[] }> {
+  // -z leaves paths unquoted, so names with spaces or quotes come through as they are
+  const output = await runGit(projectRoot, ['status', '--porcelain=v1', '-z', '--untracked-files=all']);
+  const entries = output.split('\0');
+  const tracked: string[] = [];
+  const untracked: string[] = [];
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (!entry) continue;
+    const status = entry.slice(0, 2);
+    (status === '??' ? untracked : tracked).push(entry.slice(3));
+    // A rename or copy is followed by its old path as an entry of its own
+    if (status.includes('R') || status.includes('C')) i++;
+  }
+  return { tracked, untracked };
+}
+
+/**
+ * Uncommitted changes against HEAD as a unified diff, including new files
+ * git doesn't track yet. With paths, only those files.
+ */
+export async function getWorkingDiff(projectRoot: string, paths?: string[]): Promise<string> {
+  if (paths && paths.length === 0) return '';
+  const { tracked, untracked } = await listChangedFiles(projectRoot);
+  const wanted = (path: string) => !paths || paths.includes(path);
+
+  const parts: string[] = [];
+  const trackedPaths = tracked.filter(wanted);
+  if (trackedPaths.length > 0) {
+    // Before the first commit there's no HEAD to compare with
+    const hasHead = await runGit(projectRoot, ['rev-parse', '--verify', '--quiet', 'HEAD']).then(() => true, () => false);
+    const base = hasHead ? ['HEAD'] : ['--cached'];
+    const diff = await runGit(projectRoot, ['diff', '--no-color', '--no-ext-diff', ...base, '--', ...trackedPaths]);
+    if (diff.trim()) parts.push(diff.trimEnd());
+  }
+  for (const path of untracked.filter(wanted)) {
+    const content = await readFile(join(projectRoot, path), 'utf-8').catch(() => null);
+    const diff = content === null ? '' : createUnifiedDiff(path, null, content);
+    if (diff) parts.push(diff);
+  }
+  return parts.join('\n');
+}
+
+/** Changes already staged with git add, as a unified diff. */
+export async function getStagedDiff(projectRoot: string): Promise<string> {
+  return (await runGit(projectRoot, ['diff', '--no-color', '--no-ext-diff', '--cached'])).trimEnd();
+}
+
+/**
+ * Commit. With paths, exactly those files are committed as they are on disk
+ * (new, changed or deleted), leaving anything else that was staged alone;
+ * otherwise whatever is staged is committed. Returns the short hash.
+ */
+export async function commitChanges(projectRoot: string, message: string, paths?: string[]): Promise<string> {
+  if (paths) {
+    await runGit(projectRoot, ['add', '--all', '--', ...paths]);
+  }
+  await runGit(projectRoot, ['commit', '--quiet', '-m', message, ...(paths ? ['--', ...paths] : [])]);
+  return (await runGit(projectRoot, ['rev-parse', '--short', 'HEAD'])).trim();
+}
+
+/**
+ * Have the model write a commit message for a diff, in the style of the
+ * repository's recent commits.
+ */
+export async function draftCommitMessage(client: LLMClient, projectRoot: string, diff: string): Promise<string> {
+  const recent = await runGit(projectRoot, ['log', '-n', '10', '--format=%s']).catch(() => '');
+  const shownDiff = diff.length > MAX_COMMIT_DIFF
+    ? `${diff.slice(0, MAX_COMMIT_DIFF)}\n... (diff truncated)`
+    : diff;
+
+  const request: ChatMessage[] = [
+    {
+      role: 'system',
+      content: 'You write git commit messages. Reply with the commit message only: no preamble, no code fences.',
+    },
+    {
+      role: 'user',
+      content: `Write a commit message for this diff: a summary line of at most 72 characters in the imperative mood, then, if the change needs explaining, a blank line and a short body saying what changed and why.${recent.trim() ? `\n\nRecent commit subjects, for style:\n${recent.trim()}` : ''}\n\n${shownDiff}`,
+    },
+  ];
+
+  let message = '';
+  for await (const chunk of client.chatStream(request)) {
+    if (chunk.type === 'content') message += chunk.content;
+    if (chunk.type === 'retry' || chunk.type === 'failover' || chunk.type === 'retract') message = '';
+  }
+  message = message.trim().replace(/^```\w*\n([\s\S]*?)\n```$/, '$1').trim();
+  if (!message) {
+    throw new Error('Model returned an empty commit message');
+  }
+  return message;
+}
@@ -0,0 +1,174 @@
+import chalk from 'chalk';
+import { LLMClient, ChatMessage, ToolCall } from './client.js';
+import type { Config } from './config.js';
+import { toolDefinitions, executeTool, createToolContext } from './tools.js';
+import { buildSystemPrompt } from './prompt.js';
+import { resolveContextLimit, estimateRequestTokens, compactHistory } from './context.js';
+import { loadPermissionRules } from './permissions.js';
+import { loadInstructions } from './instructions.js';
+import { getGitState } from './git.js';
+import { normalizeToolCalls, prepareToolCall } from './arguments.js';
+import { resolveToolCallFormat } from './toolparsers.js';
+import { ModelTotals, UsageTracker } from './stats.js';
+import { GenerationSettings, resolveGenerationParams } from './params.js';
+import { BackgroundJobs } from './background.js';
+import { resolveMentions } from './mentions.js';
+
+export interface HeadlessOptions {
+  config: Config;
+  allowCommands: boolean;
+  // Sampling settings from CLI flags, on top of the config's
+  generation?: GenerationSettings;
+  // Upper bound on model round-trips, so a looping model can't run forever
+  maxIterations?: number;
+}
+
+export interface TranscriptToolCall {
+  id: string;
+  name: string;
+  arguments: unknown;
+  success: boolean;
+  result: string;
+}
+
+export interface HeadlessResult {
+  success: boolean;
+  model: string | null;
+  projectRoot: string;
+  prompt: string;
+  response: string;
+  toolCalls: TranscriptToolCall[];
+  messages: ChatMessage[];
+  usage: ModelTotals[];
+  error?: string;
+}
+
+// Progress goes to stderr so stdout carries only the answer (or JSON)
+function progress(line: string): void {
+  process.stderr.write(chalk.gray(`${line}\n`));
+}
+
+/**
+ * Run one prompt through the full tool loop without a terminal. Permission
+ * rules still apply; beyond them, file changes are applied without asking
+ * and shell commands only run with allowCommands.
+ */
+export async function runHeadless(
+  client: LLMClient,
+  projectRoot: string,
+  prompt: string,
+  options: HeadlessOptions
+): Promise<HeadlessResult> {
+  const maxIterations = options.maxIterations ?? 50;
+  const background = new BackgroundJobs(projectRoot);
+  const context = createToolContext({
+    interactive: false,
+    allowCommands: options.allowCommands,
+    permissions: await loadPermissionRules(projectRoot),
+    background,
+  });
+  const applyModelSettings = () => {
+    client.setToolCallFormat(resolveToolCallFormat(options.config, client.getModel()));
+    client.setGenerationParams(
+      resolveGenerationParams(options.config, client.getServerName(), client.getModel(), options.generation)
+    );
+  };
+  applyModelSettings();
+  const limit = await resolveContextLimit(client, options.config);
+  const target = Math.floor(limit.tokens * options.config.compactThreshold);
+
+  let history: ChatMessage[] = [
+    { role: 'system', content: buildSystemPrompt(projectRoot, await loadInstructions(projectRoot), await getGitState(projectRoot)) },
+    { role: 'user', content: prompt },
+  ];
+  const toolCallLog: TranscriptToolCall[] = [];
+  const usage = new UsageTracker();
+  let response = '';
+
+  const result = (success: boolean, error?: string): HeadlessResult => ({
+    success,
+    model: client.getModel(),
+    projectRoot,
+    prompt,
+    response,
+    toolCalls: toolCallLog,
+    // The system prompt is boilerplate; leave it out of the transcript
+    messages: history.slice(1),
+    usage: usage.getTotals(),
+    ...(error ? { error } : {}),
+  });
+
+  try {
+    const { attachment, report } = await resolveMentions(projectRoot, prompt, limit.tokens);
+    report.forEach(line => progress(`  ${line}`));
+    if (attachment) {
+      history[1] = { role: 'user', content: `${prompt}\n\n${attachment}` };
+    }
+
+    for (let iteration = 0; iteration < maxIterations; iteration++) {
+      if (estimateRequestTokens(history, toolDefinitions) > target) {
+        progress('  Compacting context...');
+        history = (await compactHistory(client, history, limit.tokens, target, toolDefinitions)).messages;
+      }
+
+      let content = '';
+      let toolCalls: ToolCall[] = [];
+      for await (const chunk of client.chatStream(history, toolDefinitions)) {
+        if (chunk.type === 'content') {
+          content += chunk.content;
+        } else if (chunk.type === 'tool_calls') {
+          toolCalls = chunk.tool_calls;
+        } else if (chunk.type === 'retract') {
+          content = '';
+        } else if (chunk.type === 'stats') {
+          usage.record(chunk.stats);
+        } else if (chunk.type === 'retry' || chunk.type === 'failover') {
+          progress(`  ${chunk.message}`);
+          content = '';
+          toolCalls = [];
+          if (chunk.type === 'failover') {
+            applyModelSettings();
+          }
+        }
+      }
+
+      if (toolCalls.length === 0) {
+        history.push({ role: 'assistant', content });
+        response = content;
+        return result(true);
+      }
+
+      normalizeToolCalls(toolCalls);
+      history.push({ role: 'assistant', content: content || null, tool_calls: toolCalls });
+
+      for (const toolCall of toolCalls) {
+        progress(`  [Tool: ${toolCall.function.name || '(unnamed)'}]`);
+        const prepared = prepareToolCall(toolCall, toolDefinitions);
+        const args = prepared.ok ? prepared.args : toolCall.function.arguments;
+        const toolResult = prepared.ok
+          ? await executeTool(toolCall.function.name, prepared.args, projectRoot, context)
+          : { success: false, result: prepared.error };
+        if (!toolResult.success) {
+          progress(`    ${toolResult.result.split('\n')[0]}`);
+        }
+
+        toolCallLog.push({
+          id: toolCall.id,
+          name: toolCall.function.name,
+          arguments: args,
+          success: toolResult.success,
+          result: toolResult.result,
+        });
+        history.push({ role: 'tool', content: toolResult.result, tool_call_id: toolCall.id });
+      }
+    }
+
+    return result(false, `Stopped after ${maxIterations} model requests without a final answer`);
+  } catch (error) {
+    const err = error as Error;
+    return result(false, err.message);
+  } finally {
+    // Nothing started during the run outlives it
+    await background.stopAll();
+  }
+}
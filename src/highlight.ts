@@ -0,0 +1,218 @@
+import chalk from 'chalk';
+
+interface Grammar {
+  keywords: string[];
+  lineComments: string[];
+  blockComment?: [string, string];
+  quotes: string[];
+  // JSON and YAML: color keys (quoted, or bare at the start of a line)
+  keys?: boolean;
+}
+
+const LITERALS = new Set(['true', 'false', 'null', 'undefined', 'None', 'True', 'False', 'nil', 'NaN']);
+
+const C_STYLE = { lineComments: ['//'], blockComment: ['/*', '*/'] as [string, string], quotes: ['"', "'"] };
+
+const GRAMMARS: Record<string, Grammar> = {
+  js: {
+    ...C_STYLE,
+    quotes: ['"', "'", '`'],
+    keywords: [
+      'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete', 'do',
+      'else', 'enum', 'export', 'extends', 'finally', 'for', 'from', 'function', 'if', 'implements', 'import',
+      'in', 'instanceof', 'interface', 'keyof', 'let', 'new', 'of', 'private', 'protected', 'public', 'readonly',
+      'return', 'static', 'super', 'switch', 'this', 'throw', 'try', 'type', 'typeof', 'var', 'void', 'while',
+      'yield',
+    ],
+  },
+  python: {
+    lineComments: ['#'],
+    quotes: ['"', "'"],
+    keywords: [
+      'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else',
+      'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'nonlocal', 'not',
+      'or', 'pass', 'raise', 'return', 'self', 'try', 'while', 'with', 'yield',
+    ],
+  },
+  go: {
+    ...C_STYLE,
+    quotes: ['"', "'", '`'],
+    keywords: [
+      'break', 'case', 'chan', 'const', 'continue', 'default', 'defer', 'else', 'fallthrough', 'for', 'func',
+      'go', 'goto', 'if', 'import', 'interface', 'map', 'package', 'range', 'return', 'select', 'struct',
+      'switch', 'type', 'var',
+    ],
+  },
+  rust: {
+    ...C_STYLE,
+    quotes: ['"'],
+    keywords: [
+      'as', 'async', 'await', 'break', 'const', 'continue', 'crate', 'dyn', 'else', 'enum', 'extern', 'fn',
+      'for', 'if', 'impl', 'in', 'let', 'loop', 'match', 'mod', 'move', 'mut', 'pub', 'ref', 'return', 'self',
+      'Self', 'static', 'struct', 'super', 'trait', 'type', 'unsafe', 'use', 'where', 'while',
+    ],
+  },
+  c: {
+    ...C_STYLE,
+    keywords: [
+      'auto', 'bool', 'break', 'case', 'catch', 'char', 'class', 'const', 'continue', 'default', 'delete', 'do',
+      'double', 'else', 'enum', 'extern', 'final', 'float', 'for', 'if', 'import', 'int', 'interface', 'long',
+      'namespace', 'new', 'override', 'package', 'private', 'protected', 'public', 'return', 'short', 'signed',
+      'sizeof', 'static', 'struct', 'switch', 'template', 'this', 'throw', 'throws', 'try', 'typedef',
+      'unsigned', 'using', 'var', 'virtual', 'void', 'while', '#include', '#define',
+    ],
+  },
+  shell: {
+    lineComments: ['#'],
+    quotes: ['"', "'"],
+    keywords: [
+      'case', 'do', 'done', 'elif', 'else', 'esac', 'export', 'fi', 'for', 'function', 'if', 'in', 'local',
+      'return', 'then', 'until', 'while',
+    ],
+  },
+  sql: {
+    lineComments: ['--'],
+    blockComment: ['/*', '*/'],
+    quotes: ["'", '"'],
+    keywords: [
+      'select', 'from', 'where', 'and', 'or', 'not', 'insert', 'into', 'values', 'update', 'set', 'delete',
+      'create', 'table', 'drop', 'alter', 'index', 'join', 'left', 'right', 'inner', 'outer', 'on', 'group',
+      'by', 'order', 'having', 'limit', 'as', 'distinct', 'primary', 'key', 'references', 'null', 'is', 'in',
+    ],
+  },
+  ruby: {
+    lineComments: ['#'],
+    quotes: ['"', "'"],
+    keywords: [
+      'begin', 'class', 'def', 'do', 'else', 'elsif', 'end', 'ensure', 'if', 'module', 'next', 'require',
+      'rescue', 'return', 'self', 'unless', 'until', 'when', 'while', 'yield',
+    ],
+  },
+  json: { lineComments: [], quotes: ['"'], keywords: [], keys: true },
+  yaml: { lineComments: ['#'], quotes: ['"', "'"], keywords: [], keys: true },
+};
+
+const ALIASES: Record<string, string> = {
+  javascript: 'js', jsx: 'js', mjs: 'js', cjs: 'js', ts: 'js', typescript: 'js', tsx: 'js',
+  py: 'python', python3: 'python',
+  golang: 'go',
+  rs: 'rust',
+  h: 'c', cpp: 'c', 'c++': 'c', cc: 'c', hpp: 'c', java: 'c', kotlin: 'c', kt: 'c', cs: 'c', csharp: 'c',
+  swift: 'c', php: 'c',
+  sh: 'shell', bash: 'shell', zsh: 'shell', console: 'shell', shellscript: 'shell', dockerfile: 'shell',
+  rb: 'ruby',
+  jsonc: 'json', json5: 'json',
+  yml: 'yaml', toml: 'yaml',
+};
+
+function findGrammar(language: string): Grammar | undefined {
+  const name = language.toLowerCase();
+  return GRAMMARS[ALIASES[name] ?? name];
+}
+
+/**
+ * A line-by-line highlighter for a fenced code block's language. It keeps
+ * state between lines so block comments spanning lines stay colored. Unknown
+ * languages come back uncolored, apart from diffs.
+ */
+export function createHighlighter(language: string): (line: string) => string {
+  if (/^(diff|patch)$/i.test(language)) {
+    return line => {
+      if (line.startsWith('+++') || line.startsWith('---')) return chalk.bold(line);
+      if (line.startsWith('@@')) return chalk.cyan(line);
+      if (line.startsWith('+')) return chalk.green(line);
+      if (line.startsWith('-')) return chalk.red(line);
+      return line;
+    };
+  }
+
+  const grammar = findGrammar(language);
+  if (!grammar) return line => line;
+
+  const keywords = new Set(grammar.keywords);
+  // SQL is case-insensitive
+  const isKeyword = grammar === GRAMMARS.sql
+    ? (word: string) => keywords.has(word.toLowerCase())
+    : (word: string) => keywords.has(word);
+  let inBlockComment = false;
+
+  return (line: string) => {
+    let out = '';
+    let i = 0;
+
+    if (grammar.keys && !inBlockComment) {
+      const key = line.match(/^(\s*-?\s*)([\w.-]+)(\s*:)(?=\s|$)/);
+      if (key) {
+        out += key[1] + chalk.cyan(key[2]) + key[3];
+        i = key[0].length;
+      }
+    }
+
+    while (i < line.length) {
+      const rest = line.slice(i);
+
+      if (inBlockComment) {
+        const end = rest.indexOf(grammar.blockComment![1]);
+        const length = end === -1 ? rest.length : end + grammar.blockComment![1].length;
+        out += chalk.gray(rest.slice(0, length));
+        i += length;
+        inBlockComment = end === -1;
+        continue;
+      }
+
+      if (grammar.blockComment && rest.startsWith(grammar.blockComment[0])) {
+        inBlockComment = true;
+        out += chalk.gray(grammar.blockComment[0]);
+        i += grammar.blockComment[0].length;
+        continue;
+      }
+
+      // "#" only starts a comment at a word boundary, so $# and a#b survive
+      const comment = grammar.lineComments.find(c => rest.startsWith(c));
+      if (comment && !(comment === '#' && i > 0 && !/\s/.test(line[i - 1]))) {
+        out += chalk.gray(rest);
+        break;
+      }
+
+      const quote = grammar.quotes.find(q => rest.startsWith(q));
+      if (quote) {
+        let end = 1;
+        while (end < rest.length && rest[end] !== quote) {
+          end += rest[end] === '\\' ? 2 : 1;
+        }
+        const text = rest.slice(0, end + 1);
+        const isKey = grammar.keys && /^\s*:/.test(rest.slice(text.length));
+        out += isKey ? chalk.cyan(text) : chalk.green(text);
+        i += text.length;
+        continue;
+      }
+
+      const number = rest.match(/^\d[\w.]*/);
+      if (number && (i === 0 || !/[\w$]/.test(line[i - 1]))) {
+        out += chalk.yellow(number[0]);
+        i += number[0].length;
+        continue;
+      }
+
+      const word = rest.match(/^#?[A-Za-z_$][\w$]*/);
+      if (word) {
+        const text = word[0];
+        if (isKeyword(text)) {
+          out += chalk.magenta(text);
+        } else if (LITERALS.has(text)) {
+          out += chalk.yellow(text);
+        } else if (/^\s*\(/.test(rest.slice(text.length))) {
+          out += chalk.blue(text);
+        } else {
+          out += text;
+        }
+        i += text.length;
+        continue;
+      }
+
+      out += line[i];
+      i++;
+    }
+    return out;
+  };
+}
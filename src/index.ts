@@ -4,9 +4,23 @@ import * as readline from 'readline';
 import { existsSync } from 'fs';
 import { resolve } from 'path';
 import chalk from 'chalk';
-import { loadConfig, saveConfig, addRecentFolder, addServer, setDefaultServer, Config, LLMServer } from './config.js';
-import { LLMClient } from './client.js';
+import {
+  loadConfig,
+  loadEffectiveConfig,
+  addRecentFolder,
+  addServer,
+  setDefaultServer,
+  Config,
+  ConfigError,
+  LLMServer,
+} from './config.js';
+import { LLMClient, createClient } from './client.js';
+import { serverFromHost, promptForNewServer, describeServer, runServersCommand } from './servers.js';
+import { runConfigCommand } from './configcommand.js';
 import { Repl } from './repl.js';
+import { Session, listSessions, findSession, getLatestSession } from './sessions.js';
+import { runHeadless } from './headless.js';
+import { GenerationSettings, findParamKey, parseParamValue, getPresets } from './params.js';
 
 function printBanner(): void {
   console.log(chalk.cyan(`
@@ -42,20 +56,6 @@ async function promptForHost(): Promise<{ host: string; port: number }> {
   return { host, port };
 }
 
-async function promptForNewServer(): Promise<LLMServer> {
-  console.log(chalk.yellow('\n  Add a new LLM server\n'));
-
-  const name = await prompt('  Server name (e.g., "llama", "mistral"): ');
-  const hostInput = await prompt('  Host IP (e.g., 192.168.1.50 or localhost): ');
-  const portInput = await prompt('  Port (default: 1234): ');
-
-  return {
-    name: name || 'default',
-    host: hostInput || 'localhost',
-    port: portInput ? parseInt(portInput, 10) : 1234,
-  };
-}
-
 async function selectServer(config: Config): Promise<LLMServer | null> {
   if (config.servers.length === 0) {
     return null;
@@ -64,7 +64,7 @@ async function selectServer(config: Config): Promise<LLMServer | null> {
   console.log(chalk.blue('\n  Select an LLM server:'));
   config.servers.forEach((server, i) => {
     const isDefault = server.name === config.defaultServer ? chalk.green(' (default)') : '';
-    console.log(chalk.gray(`    ${i + 1}. ${server.name} - ${server.host}:${server.port}${isDefault}`));
+    console.log(chalk.gray(`    ${i + 1}. ${describeServer(server)}${isDefault}`));
   });
   console.log(chalk.gray(`    ${config.servers.length + 1}. Add new server`));
   console.log('');
@@ -143,15 +143,170 @@ async function selectFolder(config: Config): Promise<string> {
   return resolve(input || process.cwd());
 }
 
-async function main(): Promise<void> {
-  printBanner();
+async function selectSession(projectFolder: string): Promise<Session | null> {
+  const sessions = await listSessions(projectFolder);
+  if (sessions.length === 0) {
+    console.log(chalk.gray('  No saved sessions for this folder; starting a new one.'));
+    return null;
+  }
+
+  console.log(chalk.blue('\n  Resume which session?'));
+  sessions.slice(0, 10).forEach((session, i) => {
+    const when = new Date(session.updatedAt).toLocaleString();
+    console.log(chalk.gray(`    ${i + 1}. ${when}  ${session.title || '(untitled)'}`));
+  });
+  console.log('');
+
+  const input = await prompt('  Select session (number or id, default: 1): ');
+  if (!input) return sessions[0];
+
+  const session = await findSession(projectFolder, input);
+  if (!session) {
+    console.log(chalk.yellow(`  Session not found: ${input}; starting a new one.`));
+  }
+  return session;
+}
+
+function findModel(models: { id: string }[], name: string): string | undefined {
+  const exact = models.find(m => m.id === name);
+  if (exact) return exact.id;
+  return models.find(m => m.id.toLowerCase().includes(name.toLowerCase()))?.id;
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+interface PrintOptions {
+  prompt: string | true;
+  output: 'text' | 'json';
+  allowCommands: boolean;
+  host?: string;
+  port?: number;
+  server?: string;
+  model?: string;
+  folder?: string;
+  generation: GenerationSettings;
+}
+
+/**
+ * Headless one-shot mode (-p). Nothing prompts; diagnostics go to stderr.
+ * Returns the process exit code: 0 on success, 1 if the run failed, 2 for
+ * usage or connection errors.
+ */
+async function runPrintMode(options: PrintOptions): Promise<number> {
+  const fail = (message: string, code: number): number => {
+    process.stderr.write(chalk.red(`aingel: ${message}\n`));
+    return code;
+  };
+
+  // Piped input is appended to (or, with a bare -p, used as) the prompt
+  let userPrompt = typeof options.prompt === 'string' ? options.prompt : '';
+  if (!process.stdin.isTTY) {
+    const piped = (await readStdin()).trim();
+    if (piped) userPrompt = userPrompt ? `${userPrompt}\n\n${piped}` : piped;
+  }
+  if (!userPrompt.trim()) {
+    return fail('no prompt given (pass -p "prompt" or pipe one on stdin)', 2);
+  }
+
+  const projectRoot = resolve(options.folder || process.cwd());
+  if (!existsSync(projectRoot)) {
+    return fail(`folder not found: ${projectRoot}`, 2);
+  }
+
+  let config: Config;
+  try {
+    config = await loadEffectiveConfig(projectRoot);
+  } catch (error) {
+    return fail((error as Error).message, 2);
+  }
+  if (options.generation.preset && !getPresets(config)[options.generation.preset]) {
+    return fail(`unknown preset: ${options.generation.preset}`, 2);
+  }
+
+  let server: LLMServer | undefined;
+  const host = options.host || process.env.LLM_HOST;
+  if (host) {
+    const port = options.port || (process.env.LLM_PORT ? parseInt(process.env.LLM_PORT, 10) : undefined);
+    server = serverFromHost(host, host, port || 1234);
+  } else {
+    server = options.server
+      ? config.servers.find(s => s.name.toLowerCase() === options.server!.toLowerCase())
+      : config.servers.find(s => s.name === config.defaultServer) ?? config.servers[0];
+    if (options.server && !server) {
+      return fail(`server not found: ${options.server}`, 2);
+    }
+  }
+  if (!server) {
+    return fail('no LLM server configured (run aingel interactively once, or pass --host)', 2);
+  }
+
+  let client: LLMClient;
+  let models: { id: string }[];
+  try {
+    client = createClient(server, config);
+  } catch (error) {
+    return fail((error as Error).message, 2);
+  }
+  try {
+    models = await client.listModels();
+  } catch (error) {
+    return fail(`cannot connect to ${client.getUrl()}: ${(error as Error).message}`, 2);
+  }
+  if (models.length === 0) {
+    return fail('no models loaded on server', 2);
+  }
+  const model = options.model ? findModel(models, options.model) : models[0].id;
+  if (!model) {
+    return fail(`model not found: ${options.model}`, 2);
+  }
+  client.setModel(model);
+
+  const result = await runHeadless(client, projectRoot, userPrompt, {
+    config,
+    allowCommands: options.allowCommands,
+    generation: options.generation,
+  });
+
+  if (options.output === 'json') {
+    process.stdout.write(JSON.stringify(result, null, 2) + '\n');
+  } else if (result.response) {
+    process.stdout.write(result.response.trimEnd() + '\n');
+  }
+
+  if (!result.success) {
+    return fail(result.error || 'run failed', 1);
+  }
+  return 0;
+}
 
+async function main(): Promise<void> {
   // Parse command line args
   const args = process.argv.slice(2);
+
+  if (args[0] === 'servers') {
+    process.exit(await runServersCommand(args.slice(1)));
+  }
+  if (args[0] === 'config') {
+    process.exit(await runConfigCommand(args.slice(1)));
+  }
+
   let hostArg: string | undefined;
   let portArg: number | undefined;
   let folderArg: string | undefined;
   let serverArg: string | undefined;
+  let resumeArg: string | true | undefined;
+  let continueArg = false;
+  let modelArg: string | undefined;
+  let printArg: string | true | undefined;
+  let outputArg: 'text' | 'json' = 'text';
+  let allowCommandsArg = false;
+  const generationArg: GenerationSettings = {};
 
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
@@ -161,24 +316,81 @@ async function main(): Promise<void> {
       portArg = parseInt(args[++i], 10);
     } else if ((arg === '--server' || arg === '-s') && args[i + 1]) {
       serverArg = args[++i];
+    } else if (arg === '--resume' || arg === '-r') {
+      // The session id is optional, so don't swallow a following folder path
+      const next = args[i + 1];
+      resumeArg = next && !next.startsWith('-') && !existsSync(resolve(next)) ? args[++i] : true;
+    } else if (arg === '--continue' || arg === '-c') {
+      continueArg = true;
+    } else if ((arg === '--model' || arg === '-m') && args[i + 1]) {
+      modelArg = args[++i];
+    } else if (arg === '--print' || arg === '-p') {
+      // A bare -p (or "-p -") reads the prompt from stdin
+      const next = args[i + 1];
+      printArg = next !== undefined && (next === '-' || !next.startsWith('-')) ? args[++i] : true;
+      if (printArg === '-') printArg = true;
+    } else if (arg === '--output' && args[i + 1]) {
+      const value = args[++i];
+      if (value !== 'text' && value !== 'json') {
+        console.error(chalk.red(`aingel: --output must be "text" or "json", got "${value}"`));
+        process.exit(2);
+      }
+      outputArg = value;
+    } else if (arg === '--allow-commands') {
+      allowCommandsArg = true;
+    } else if (arg === '--preset' && args[i + 1]) {
+      generationArg.preset = args[++i];
+    } else if (arg.startsWith('--') && findParamKey(arg.slice(2))) {
+      // --temperature, --top-p, --max-tokens, --seed; --stop may be repeated
+      const key = findParamKey(arg.slice(2))!;
+      try {
+        const value = parseParamValue(key, [args[++i] ?? '']);
+        if (key === 'stop') {
+          generationArg.stop = [...(generationArg.stop ?? []), ...(value as string[])];
+        } else {
+          (generationArg as Record<string, unknown>)[key] = value;
+        }
+      } catch (error) {
+        console.error(chalk.red(`aingel: ${(error as Error).message}`));
+        process.exit(2);
+      }
     } else if (!arg.startsWith('--') && !arg.startsWith('-')) {
       folderArg = arg;
     }
   }
 
+  if (printArg !== undefined) {
+    const code = await runPrintMode({
+      prompt: printArg,
+      output: outputArg,
+      allowCommands: allowCommandsArg,
+      host: hostArg,
+      port: portArg,
+      server: serverArg,
+      model: modelArg,
+      folder: folderArg,
+      generation: generationArg,
+    });
+    process.exit(code);
+  }
+
+  printBanner();
+
   // Load config
   let config = await loadConfig();
 
-  // Get host/port from args, env, or config
-  let host = hostArg || process.env.LLM_HOST;
-  let port = portArg || (process.env.LLM_PORT ? parseInt(process.env.LLM_PORT, 10) : undefined);
+  // Get the server from args, env, or config
+  let server: LLMServer | undefined;
+  const host = hostArg || process.env.LLM_HOST;
+  if (host) {
+    const port = portArg || (process.env.LLM_PORT ? parseInt(process.env.LLM_PORT, 10) : undefined);
+    server = serverFromHost(host, host, port || 1234);
+  }
 
   // If --server flag provided, find that server
-  if (!host && serverArg && config.servers.length > 0) {
-    const server = config.servers.find(s => s.name.toLowerCase() === serverArg.toLowerCase());
+  if (!server && serverArg && config.servers.length > 0) {
+    server = config.servers.find(s => s.name.toLowerCase() === serverArg.toLowerCase());
     if (server) {
-      host = server.host;
-      port = server.port;
       console.log(chalk.gray(`  Using server: ${server.name}`));
     } else {
       console.log(chalk.red(`\n  Server not found: ${serverArg}`));
@@ -190,7 +402,7 @@ async function main(): Promise<void> {
   }
 
   // If no args/env, use server selector or legacy config
-  if (!host) {
+  if (!server) {
     if (config.servers.length > 0) {
       // Multi-server mode: select from configured servers
       let selectedServer = await selectServer(config);
@@ -203,8 +415,7 @@ async function main(): Promise<void> {
         selectedServer = newServer;
       }
 
-      host = selectedServer.host;
-      port = selectedServer.port;
+      server = selectedServer;
 
       // Ask if this should be the default
       if (config.servers.length > 1 && selectedServer.name !== config.defaultServer) {
@@ -213,46 +424,39 @@ async function main(): Promise<void> {
           await setDefaultServer(selectedServer.name);
         }
       }
-    } else if (config.host) {
-      // Legacy single-host mode
-      host = config.host;
-      port = config.port;
     } else {
       // First run - prompt for host and save as server
       const setup = await promptForHost();
-      host = setup.host;
-      port = setup.port;
 
       // Save as first server
       const serverName = await prompt('  Give this server a name (e.g., "main", "llama"): ');
-      const newServer: LLMServer = {
+      server = {
         name: serverName || 'default',
-        host,
-        port,
+        host: setup.host,
+        port: setup.port,
       };
-      await addServer(newServer);
-      await setDefaultServer(newServer.name);
-
-      // Also update legacy config for backwards compat
-      config.host = host;
-      config.port = port;
-      await saveConfig(config);
+      await addServer(server);
+      await setDefaultServer(server.name);
     }
   }
 
-  port = port || 1234;
-
-  // Connect to LM Studio
-  console.log(chalk.gray(`\n  Connecting to ${host}:${port}...`));
+  let client: LLMClient;
+  try {
+    client = createClient(server, config);
+  } catch (error) {
+    console.log(chalk.red(`\n  ${(error as Error).message}\n`));
+    process.exit(1);
+  }
 
-  const client = new LLMClient(host, port);
+  // Connect to the server
+  console.log(chalk.gray(`\n  Connecting to ${client.getUrl()}...`));
 
   try {
     const connected = await client.testConnection();
     if (!connected) {
       console.log(chalk.red('\n  Failed to connect to LLM server.'));
       console.log(chalk.yellow('  Make sure the server is running and accessible.'));
-      console.log(chalk.gray(`  Tried: http://${host}:${port}/v1/models\n`));
+      console.log(chalk.gray(`  Tried: ${client.getUrl()}\n`));
       process.exit(1);
     }
 
@@ -264,7 +468,20 @@ async function main(): Promise<void> {
       process.exit(1);
     }
 
-    const selectedModel = await selectModel(client, models);
+    let selectedModel: string;
+    if (modelArg) {
+      const match = findModel(models, modelArg);
+      if (!match) {
+        console.log(chalk.red(`\n  Model not found: ${modelArg}`));
+        console.log(chalk.yellow('  Available models:'));
+        models.forEach(m => console.log(chalk.gray(`    - ${m.id}`)));
+        console.log('');
+        process.exit(1);
+      }
+      selectedModel = match;
+    } else {
+      selectedModel = await selectModel(client, models);
+    }
     client.setModel(selectedModel);
     console.log(chalk.green(`  ✓ Connected! Model: ${selectedModel}`));
   } catch (error) {
@@ -293,12 +510,44 @@ async function main(): Promise<void> {
 
   console.log(chalk.gray(`  Working directory: ${projectFolder}`));
 
+  // The project's .aingel/config.json can change timeouts, retries and presets
+  const projectConfig = await loadEffectiveConfig(projectFolder);
+  if (generationArg.preset && !getPresets(projectConfig)[generationArg.preset]) {
+    console.log(chalk.red(`\n  Unknown preset: ${generationArg.preset}`));
+    console.log(chalk.yellow(`  Presets: ${Object.keys(getPresets(projectConfig)).join(', ')}\n`));
+    process.exit(1);
+  }
+  const model = client.getModel();
+  client = createClient(server, projectConfig);
+  if (model) client.setModel(model);
+
+  // Find a session to resume, if requested
+  let resumeSession: Session | null = null;
+  if (continueArg) {
+    resumeSession = await getLatestSession(projectFolder);
+    if (!resumeSession) {
+      console.log(chalk.gray('  No previous session for this folder; starting a new one.'));
+    }
+  } else if (typeof resumeArg === 'string') {
+    resumeSession = await findSession(projectFolder, resumeArg);
+    if (!resumeSession) {
+      console.log(chalk.red(`\n  Session not found: ${resumeArg}\n`));
+      process.exit(1);
+    }
+  } else if (resumeArg) {
+    resumeSession = await selectSession(projectFolder);
+  }
+
   // Start REPL
-  const repl = new Repl(client, projectFolder);
-  await repl.start();
+  const repl = new Repl(client, projectFolder, generationArg);
+  await repl.start(resumeSession ?? undefined);
 }
 
 main().catch((error) => {
+  if (error instanceof ConfigError) {
+    console.error(chalk.red(error.message));
+    process.exit(1);
+  }
   console.error(chalk.red(`Fatal error: ${error.message}`));
   process.exit(1);
 });
@@ -0,0 +1,244 @@
+import * as readline from 'readline';
+import { Transform, TransformCallback } from 'stream';
+import { homedir } from 'os';
+import { join, resolve, relative } from 'path';
+import { readFile, readdir } from 'fs/promises';
+import { mkdirSync, writeFileSync } from 'fs';
+import { getProjectKey } from './sessions.js';
+
+const HISTORY_DIR = join(homedir(), '.aingel', 'history');
+const MAX_HISTORY = 500;
+
+// Terminals wrap pasted text in these once bracketed paste mode is on
+const PASTE_START = '\x1b[200~';
+const PASTE_END = '\x1b[201~';
+const ENABLE_BRACKETED_PASTE = '\x1b[?2004h';
+const DISABLE_BRACKETED_PASTE = '\x1b[?2004l';
+const PASTE_PLACEHOLDER = /\[Pasted text #(\d+), \d+ lines\]/g;
+
+// Never offered by @path completion
+const HIDDEN_DIRS = ['.git', 'node_modules'];
+
+function getHistoryPath(projectRoot: string): string {
+  return join(HISTORY_DIR, `${getProjectKey(projectRoot)}.json`);
+}
+
+/** Input history for a project, newest first. */
+export async function loadInputHistory(projectRoot: string): Promise<string[]> {
+  try {
+    const history = JSON.parse(await readFile(getHistoryPath(projectRoot), 'utf-8'));
+    return Array.isArray(history) ? history.filter(line => typeof line === 'string').slice(0, MAX_HISTORY) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Synchronous: the file is small, and an async write could be cut short by
+// the process exiting right after the last line (/quit)
+function saveInputHistory(projectRoot: string, history: string[]): void {
+  mkdirSync(HISTORY_DIR, { recursive: true });
+  // Prompts can hold anything the user typed, so keep the file private
+  writeFileSync(getHistoryPath(projectRoot), JSON.stringify(history.slice(0, MAX_HISTORY), null, 2), { mode: 0o600 });
+}
+
+/** Length of the longest suffix of text that is the start of marker. */
+function partialMarkerLength(text: string, marker: string): number {
+  for (let length = Math.min(marker.length - 1, text.length); length >= 2; length--) {
+    if (marker.startsWith(text.slice(-length))) return length;
+  }
+  return 0;
+}
+
+/**
+ * Sits between stdin and readline, which would submit a paste at its first
+ * newline. Pastes of more than one line are held back and shown as a
+ * placeholder that expand() swaps back in; Alt+Enter becomes "\" + Enter,
+ * the continuation key.
+ */
+class PasteFilter extends Transform {
+  // readline only enables raw mode and keypress handling for TTYs
+  readonly isTTY = true;
+  private pasting = false;
+  private pasted = '';
+  private carry = '';
+  private pastes: string[] = [];
+
+  setRawMode(mode: boolean): this {
+    process.stdin.setRawMode?.(mode);
+    return this;
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    let text = this.carry + chunk.toString('utf-8');
+    this.carry = '';
+    let out = '';
+
+    while (text) {
+      const marker = this.pasting ? PASTE_END : PASTE_START;
+      const index = text.indexOf(marker);
+      // A marker can be split across reads; hold back its start
+      const end = index === -1 ? text.length - partialMarkerLength(text, marker) : index;
+      if (this.pasting) {
+        this.pasted += text.slice(0, end);
+      } else {
+        out += text.slice(0, end).replace(/\x1b[\r\n]/g, '\\\r');
+      }
+      if (index === -1) {
+        this.carry = text.slice(end);
+        break;
+      }
+      if (this.pasting) out += this.endPaste();
+      this.pasting = !this.pasting;
+      text = text.slice(index + marker.length);
+    }
+    callback(null, out);
+  }
+
+  private endPaste(): string {
+    const text = this.pasted.replace(/\r\n?/g, '\n').replace(/\n+$/, '');
+    this.pasted = '';
+    // Tabs would trigger completion
+    if (!text.includes('\n')) return text.replace(/\t/g, '    ');
+    this.pastes.push(text);
+    return `[Pasted text #${this.pastes.length}, ${text.split('\n').length} lines]`;
+  }
+
+  expand(line: string): string {
+    return line.replace(PASTE_PLACEHOLDER, (placeholder, n: string) => this.pastes[Number(n) - 1] ?? placeholder);
+  }
+}
+
+/** Entries of a project directory matching a partial @path, directories ending in "/". */
+async function completePath(projectRoot: string, partial: string): Promise<string[]> {
+  const slash = partial.lastIndexOf('/');
+  const dir = partial.slice(0, slash + 1);
+  const prefix = partial.slice(slash + 1);
+  const fullDir = resolve(projectRoot, dir || '.');
+  if (relative(projectRoot, fullDir).startsWith('..')) return [];
+
+  try {
+    const entries = await readdir(fullDir, { withFileTypes: true });
+    return entries
+      .filter(entry => entry.name.startsWith(prefix) && !HIDDEN_DIRS.includes(entry.name))
+      .filter(entry => prefix.startsWith('.') || !entry.name.startsWith('.'))
+      .map(entry => `${dir}${entry.name}${entry.isDirectory() ? '/' : ''}`)
+      .sort();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * The REPL's prompt: readline with persistent per-project history, tab
+ * completion for slash commands and @paths, and multi-line input from pastes
+ * and lines ending in "\".
+ */
+export class PromptInput {
+  readonly rl: readline.Interface;
+  private filter: PasteFilter | null = null;
+  // Lines so far of a message continued with "\"
+  private lines: string[] = [];
+  private mainPrompt = '';
+
+  private constructor(private readonly projectRoot: string, history: string[], commands: string[]) {
+    let input: NodeJS.ReadableStream = process.stdin;
+    if (process.stdin.isTTY && process.stdout.isTTY) {
+      this.filter = new PasteFilter();
+      process.stdin.pipe(this.filter);
+      input = this.filter;
+      process.stdout.write(ENABLE_BRACKETED_PASTE);
+      process.on('exit', () => this.close());
+    }
+
+    this.rl = readline.createInterface({
+      input,
+      output: process.stdout,
+      terminal: Boolean(this.filter),
+      history,
+      historySize: MAX_HISTORY,
+      removeHistoryDuplicates: true,
+      completer: (line: string, callback: (error: null, result: [string[], string]) => void) => {
+        this.complete(line, commands).then(result => callback(null, result), () => callback(null, [[], line]));
+      },
+    });
+
+    this.rl.on('history', (entries: string[]) => {
+      // Placeholders only mean something in the session that pasted them
+      const kept = entries.filter(line => !line.match(PASTE_PLACEHOLDER));
+      try {
+        saveInputHistory(this.projectRoot, kept);
+      } catch {
+        // History is a convenience; never interrupt the session for it
+      }
+    });
+  }
+
+  static async create(projectRoot: string, commands: string[]): Promise<PromptInput> {
+    return new PromptInput(projectRoot, await loadInputHistory(projectRoot), commands);
+  }
+
+  /**
+   * Read one message. A line ending in "\" (or Alt+Enter) continues on the
+   * next line; pasted blocks are expanded.
+   */
+  read(prompt: string, continuationPrompt: string): Promise<string> {
+    this.mainPrompt = prompt;
+    this.lines = [];
+    // A nested prompt (a confirmation, say) may have paused stdin or left
+    // the terminal in cooked mode
+    if (this.filter) {
+      process.stdin.setRawMode?.(true);
+      process.stdin.resume();
+    }
+
+    return new Promise(resolve => {
+      const ask = (text: string) => {
+        this.rl.question(text, (answer) => {
+          if (answer.endsWith('\\')) {
+            this.lines.push(answer.slice(0, -1));
+            ask(continuationPrompt);
+            return;
+          }
+          const message = [...this.lines, answer].join('\n');
+          this.lines = [];
+          resolve(this.filter ? this.filter.expand(message) : message);
+        });
+      };
+      ask(prompt);
+    });
+  }
+
+  /** Drop a half-typed multi-line message (Ctrl+C) and go back to the main prompt. */
+  discard(): void {
+    this.lines = [];
+    this.rl.setPrompt(this.mainPrompt);
+  }
+
+  /** Pause the prompt while another program (an editor) has the terminal. */
+  suspend(): void {
+    process.stdin.setRawMode?.(false);
+    this.rl.pause();
+  }
+
+  close(): void {
+    if (this.filter) {
+      process.stdout.write(DISABLE_BRACKETED_PASTE);
+      process.stdin.unpipe(this.filter);
+      this.filter = null;
+    }
+    this.rl.close();
+  }
+
+  private async complete(line: string, commands: string[]): Promise<[string[], string]> {
+    if (/^\/\S*$/.test(line)) {
+      const hits = commands.filter(command => command.startsWith(line));
+      return [hits.length > 0 ? hits : commands, line];
+    }
+    const mention = line.match(/(?:^|\s)@(\S*)$/);
+    if (mention) {
+      const paths = await completePath(this.projectRoot, mention[1]);
+      return [paths.map(path => `@${path}`), `@${mention[1]}`];
+    }
+    return [[], line];
+  }
+}
@@ -0,0 +1,73 @@
+import { homedir } from 'os';
+import { join } from 'path';
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+
+export const INSTRUCTIONS_FILE = 'AINGEL.md';
+
+// Keep a runaway instruction file from eating the context window
+const MAX_INSTRUCTIONS_CHARS = 20000;
+
+export interface InstructionSource {
+  path: string;
+  content: string;
+  truncated: boolean;
+}
+
+export interface ProjectInstructions {
+  global: InstructionSource | null;
+  project: InstructionSource | null;
+}
+
+export function getGlobalInstructionsPath(): string {
+  return join(homedir(), '.aingel', INSTRUCTIONS_FILE);
+}
+
+export function getProjectInstructionsPath(projectRoot: string): string {
+  return join(projectRoot, INSTRUCTIONS_FILE);
+}
+
+async function readInstructions(path: string): Promise<InstructionSource | null> {
+  if (!existsSync(path)) return null;
+  try {
+    const content = (await readFile(path, 'utf-8')).trim();
+    if (!content) return null;
+    return content.length > MAX_INSTRUCTIONS_CHARS
+      ? { path, content: content.slice(0, MAX_INSTRUCTIONS_CHARS), truncated: true }
+      : { path, content, truncated: false };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Load the user-global (~/.aingel/AINGEL.md) and project (AINGEL.md at the
+ * project root) instruction files. Either may be missing.
+ */
+export async function loadInstructions(projectRoot: string): Promise<ProjectInstructions> {
+  return {
+    global: await readInstructions(getGlobalInstructionsPath()),
+    project: await readInstructions(getProjectInstructionsPath(projectRoot)),
+  };
+}
+
+/**
+ * The prompt /init sends so the model explores the repo and drafts AINGEL.md.
+ */
+export function buildInitPrompt(exists: boolean): string {
+  const action = exists
+    ? `An ${INSTRUCTIONS_FILE} already exists. Read it, then improve it with anything important that is missing or out of date.`
+    : `Create ${INSTRUCTIONS_FILE} in the project root.`;
+
+  return `Explore this project with your tools and write an ${INSTRUCTIONS_FILE} file of guidance for future coding sessions. ${action}
+
+Look at the directory layout, package/build manifests (package.json, Makefile, pyproject.toml, Cargo.toml, etc.), README, lint and formatter configs, and a few representative source and test files.
+
+The file should be concise Markdown (well under 100 lines) covering:
+- What the project is, in one or two sentences
+- Commands to install, build, run, test and lint
+- Code style and conventions actually used (naming, module layout, error handling, test placement)
+- Important directories, and any that must not be edited (generated code, vendored code, build output)
+
+Only state things you verified in the files. Write the file with write_file (or edit_file if it exists).`;
+}
@@ -0,0 +1,293 @@
+import chalk from 'chalk';
+import { createHighlighter } from './highlight.js';
+
+// Complete inline spans, tried at each position. Unmatched markers are left
+// as typed, so "2 * 3" and snake_case come through unchanged.
+const INLINE_SPANS: Array<[RegExp, (match: RegExpExecArray) => string]> = [
+  [/`([^`]+)`/y, m => chalk.cyan(m[1])],
+  [/\*\*(?=\S)(.+?)\*\*/y, m => chalk.bold(renderInline(m[1]))],
+  [/__(?=\S)(.+?)__/y, m => chalk.bold(renderInline(m[1]))],
+  [/~~(?=\S)(.+?)~~/y, m => chalk.strikethrough(renderInline(m[1]))],
+  [/\*(?=[^\s*])([^*]+?)\*/y, m => chalk.italic(renderInline(m[1]))],
+  [/\[([^\]]+)\]\(([^)\s]+)\)/y, m => `${chalk.underline(m[1])} ${chalk.dim(`(${m[2]})`)}`],
+];
+
+// Characters that may start a span, and so can't be shown until it closes
+const SPAN_STARTS = new Set(['`', '*', '_', '~', '[']);
+
+const FENCE = /^(\s*)(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+function matchSpan(text: string, index: number): { length: number; rendered: string } | null {
+  for (const [pattern, render] of INLINE_SPANS) {
+    pattern.lastIndex = index;
+    const match = pattern.exec(text);
+    if (match) return { length: match[0].length, rendered: render(match) };
+  }
+  return null;
+}
+
+/** Render `code`, **bold**, *italic*, ~~strikethrough~~ and [links](url) in one line of text. */
+export function renderInline(text: string): string {
+  let out = '';
+  let i = 0;
+  while (i < text.length) {
+    const span = SPAN_STARTS.has(text[i]) ? matchSpan(text, i) : null;
+    if (span) {
+      out += span.rendered;
+      i += span.length;
+    } else {
+      out += text[i];
+      i++;
+    }
+  }
+  return out;
+}
+
+/** Whether an unmatched marker could still open a span, given what follows it so far. */
+function mightOpenSpan(text: string, index: number): boolean {
+  const next = text[index + 1];
+  switch (text[index]) {
+    case '`':
+      return true;
+    case '*':
+      return next === undefined || !/\s/.test(next);
+    case '_':
+    case '~':
+      return next === undefined || next === text[index];
+    case '[': {
+      // "[1]" on its own is not a link
+      const close = text.indexOf(']', index);
+      return close === -1 || close === text.length - 1 || text[close + 1] === '(';
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * How much of a partial line can be rendered now: everything before the
+ * first marker that might still open a span once more text arrives.
+ */
+function streamableLength(text: string): number {
+  let i = 0;
+  while (i < text.length) {
+    const span = SPAN_STARTS.has(text[i]) ? matchSpan(text, i) : null;
+    if (span) {
+      i += span.length;
+    } else if (mightOpenSpan(text, i)) {
+      return i;
+    } else {
+      i++;
+    }
+  }
+  return i;
+}
+
+// Color codes chalk adds, which take no room on screen
+const ANSI_STYLE = new RegExp('\\u001b\\[[0-9;]*m', 'g');
+
+function visibleLength(text: string): number {
+  return text.replace(ANSI_STYLE, '').length;
+}
+
+/** Where a line's content starts and how it's styled, once its start is known. */
+interface LineStart {
+  prefix: string;
+  bodyStart: number;
+  style: (text: string) => string;
+}
+
+/**
+ * Classify a line by its start. Returns null when more text is needed to
+ * tell (e.g. "-" could become a list item or a rule), or "whole" for lines
+ * that are only rendered once complete: fences, table rows and rules.
+ */
+function classifyLine(line: string, complete: boolean): LineStart | 'whole' | null {
+  const indent = line.match(/^\s*/)![0];
+  const rest = line.slice(indent.length);
+  const plain = (text: string) => text;
+
+  if (!complete && (rest === '' || /^([`~]{1,2}|#{1,6}|[-*+_]|\d+[.)]?|>)$/.test(rest))) return null;
+  if (FENCE.test(line) || rest.startsWith('|')) return 'whole';
+  if (/^([-*_])(\s*\1){2,}\s*$/.test(rest)) return 'whole';
+  if (!complete && /^[-*_](\s*[-*_])*\s*$/.test(rest)) return null;
+
+  const heading = rest.match(/^(#{1,6})\s+/);
+  if (heading) {
+    const style = heading[1].length === 1 ? (t: string) => chalk.bold.underline(t) : (t: string) => chalk.bold(t);
+    return { prefix: indent, bodyStart: indent.length + heading[0].length, style };
+  }
+  const bullet = rest.match(/^[-*+]\s+/);
+  if (bullet) {
+    return { prefix: `${indent}${chalk.cyan('•')} `, bodyStart: indent.length + bullet[0].length, style: plain };
+  }
+  const ordered = rest.match(/^(\d+[.)])\s+/);
+  if (ordered) {
+    return { prefix: `${indent}${chalk.cyan(ordered[1])} `, bodyStart: indent.length + ordered[0].length, style: plain };
+  }
+  const quote = rest.match(/^>\s?/);
+  if (quote) {
+    return { prefix: `${indent}${chalk.dim('│')} `, bodyStart: indent.length + quote[0].length, style: t => chalk.italic(t) };
+  }
+  return { prefix: '', bodyStart: 0, style: plain };
+}
+
+function splitTableRow(row: string): string[] {
+  return row.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+}
+
+/**
+ * Renders markdown as it streams in. Text is shown as soon as its formatting
+ * is known: most of a paragraph streams word by word, while code lines, table
+ * rows and rules wait for their line (tables for the whole table, to line up
+ * the columns). In plain mode text passes through untouched.
+ */
+export class MarkdownRenderer {
+  private line = '';
+  // How much of the current line has been written, and how it was styled
+  private written = 0;
+  private lineStart: LineStart | null = null;
+  private fence: { marker: string; highlight: (line: string) => string } | null = null;
+  private table: string[] = [];
+
+  constructor(private readonly plain: boolean) {}
+
+  /** Add streamed text; returns what can be written to the terminal now. */
+  push(text: string): string {
+    if (this.plain) return text;
+
+    let out = '';
+    this.line += text;
+    let newline: number;
+    while ((newline = this.line.indexOf('\n')) !== -1) {
+      const line = this.line.slice(0, newline);
+      this.line = this.line.slice(newline + 1);
+      out += this.finishLine(line);
+    }
+    return out + this.streamPartial();
+  }
+
+  /** Write out anything held back, e.g. at the end of a response. */
+  flush(): string {
+    if (this.plain) return '';
+    let out = '';
+    if (this.line) {
+      out += this.finishLine(this.line).replace(/\n$/, '');
+      this.line = '';
+    }
+    out += this.flushTable().replace(/\n$/, '');
+    this.fence = null;
+    return out;
+  }
+
+  /** Drop buffered text and state, e.g. when a response is retried from the start. */
+  reset(): void {
+    this.line = '';
+    this.written = 0;
+    this.lineStart = null;
+    this.fence = null;
+    this.table = [];
+  }
+
+  private finishLine(line: string): string {
+    // Part of this line has already been streamed; finish it in the same style
+    if (this.lineStart) {
+      const { style } = this.lineStart;
+      const rest = line.slice(this.written);
+      this.lineStart = null;
+      this.written = 0;
+      return `${style(renderInline(rest))}\n`;
+    }
+
+    if (this.fence) {
+      const close = line.match(FENCE);
+      if (close && close[2].startsWith(this.fence.marker) && !close[3]) {
+        this.fence = null;
+        return `${chalk.dim(line)}\n`;
+      }
+      return `${this.fence.highlight(line)}\n`;
+    }
+
+    if (line.trim().startsWith('|')) {
+      this.table.push(line);
+      return '';
+    }
+    let out = this.flushTable();
+
+    const open = line.match(FENCE);
+    if (open) {
+      this.fence = { marker: open[2], highlight: createHighlighter(open[3]) };
+      return `${out}${chalk.dim(line)}\n`;
+    }
+
+    // Complete lines always classify; "whole" here is a rule such as --- or ***
+    const start = classifyLine(line, true);
+    if (start === 'whole' || start === null) {
+      return `${out}${line.trim() ? chalk.dim('─'.repeat(40)) : ''}\n`;
+    }
+    out += `${start.prefix}${start.style(renderInline(line.slice(start.bodyStart)))}\n`;
+    return out;
+  }
+
+  /** Write as much of the unfinished line as can be formatted already. */
+  private streamPartial(): string {
+    if (this.fence || !this.line) return '';
+
+    let out = '';
+    if (!this.lineStart) {
+      const start = classifyLine(this.line, false);
+      if (start === null || start === 'whole') return '';
+      // A table ends at the first line that isn't a row
+      out += this.flushTable();
+      this.lineStart = start;
+      this.written = start.bodyStart;
+      out += start.prefix;
+    }
+
+    const pending = this.line.slice(this.written);
+    const length = streamableLength(pending);
+    if (length > 0) {
+      out += this.lineStart.style(renderInline(pending.slice(0, length)));
+      this.written += length;
+    }
+    return out;
+  }
+
+  private flushTable(): string {
+    if (this.table.length === 0) return '';
+    const rows = this.table;
+    this.table = [];
+
+    // Without a |---| line under the header it isn't a table
+    if (rows.length < 2 || !TABLE_SEPARATOR.test(rows[1])) {
+      return rows.map(row => `${renderInline(row)}\n`).join('');
+    }
+
+    const cells = [rows[0], ...rows.slice(2)].map(row => splitTableRow(row).map(renderInline));
+    const columns = Math.max(...cells.map(row => row.length));
+    const widths = Array.from({ length: columns }, (_, c) =>
+      Math.max(...cells.map(row => visibleLength(row[c] ?? '')))
+    );
+    const format = (row: string[]) =>
+      widths.map((width, c) => {
+        const cell = row[c] ?? '';
+        return cell + ' '.repeat(width - visibleLength(cell));
+      }).join(chalk.dim(' │ ')).trimEnd();
+
+    const [header, ...body] = cells;
+    return [
+      chalk.bold(format(header)),
+      chalk.dim(widths.map(width => '─'.repeat(width)).join('─┼─')),
+      ...body.map(format),
+    ].map(line => `${line}\n`).join('');
+  }
+}
+
+/**
+ * Whether to render markdown: not when output is piped or redirected, or
+ * when NO_COLOR is set.
+ */
+export function canRenderMarkdown(): boolean {
+  return Boolean(process.stdout.isTTY) && !process.env.NO_COLOR;
+}
@@ -0,0 +1,188 @@
+import { readFile, stat } from 'fs/promises';
+import { join, resolve, relative, sep } from 'path';
+import { listProjectFiles, isBinaryFile, isPathSafe, numberLines } from './files.js';
+import { estimateTokens } from './context.js';
+
+// Files attached for one message, however many a directory or glob matches
+const MAX_MENTION_FILES = 30;
+// Larger files are never read whole; the model can page through them with read_file
+const MAX_MENTION_FILE_SIZE = 1024 * 1024;
+// Share of the context window @files may fill, leaving room for the
+// conversation and the reply
+const MENTION_CONTEXT_SHARE = 0.5;
+
+/** An @reference as typed: a file, a directory ending in "/" or a glob, with an optional line range. */
+interface Mention {
+  token: string;
+  path: string;
+  range?: { start: number; end: number };
+}
+
+export interface ResolvedMentions {
+  // Appended to the user's message; empty when nothing was attached
+  attachment: string;
+  // One line per @reference for the user: what was attached, cut or skipped
+  report: string[];
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * @references in a message. Only at the start or after whitespace, so email
+ * addresses don't count; punctuation closing a sentence is left off.
+ */
+function findMentions(text: string): Mention[] {
+  const mentions: Mention[] = [];
+  for (const match of text.matchAll(/(?:^|\s)@(\S+)/g)) {
+    const token = match[1].replace(/[,;:!?)\]'"]+$/, '').replace(/(?<!\.)\.$/, '');
+    if (!token) continue;
+    const range = token.match(/^(.+):(\d+)(?:-(\d+))?$/);
+    if (range) {
+      const start = Number(range[2]);
+      mentions.push({ token, path: range[1], range: { start, end: range[3] ? Number(range[3]) : start } });
+    } else {
+      mentions.push({ token, path: token });
+    }
+  }
+  return mentions;
+}
+
+/** Project files a mention stands for, or a reason it stands for none. */
+async function matchFiles(projectRoot: string, mention: Mention): Promise<string[] | string> {
+  if (!isPathSafe(projectRoot, mention.path)) return 'outside the project, not attached';
+
+  if (/[*?[{]/.test(mention.path)) {
+    const files = await listProjectFiles(projectRoot, mention.path.replace(/^\.\//, ''));
+    return files.length > 0 ? files : 'no files match';
+  }
+
+  const fullPath = resolve(projectRoot, mention.path);
+  const info = await stat(fullPath).catch(() => null);
+  if (!info) return 'not found, sent as typed';
+  const path = relative(projectRoot, fullPath).split(sep).join('/');
+  if (!info.isDirectory()) return [path];
+
+  const files = await listProjectFiles(projectRoot, path ? `${path}/**/*` : '**/*');
+  return files.length > 0 ? files : 'no files in this directory (or all ignored)';
+}
+
+/**
+ * Resolve @path, @dir/ and @glob references against the project and read the
+ * files they match, numbered like read_file. @file:120-180 attaches just those
+ * lines. Everything attached shares half the context window: a file that
+ * doesn't fit is cut, and files after it are left out.
+ */
+export async function resolveMentions(projectRoot: string, text: string, contextTokens: number): Promise<ResolvedMentions> {
+  const blocks: string[] = [];
+  const report: string[] = [];
+  const attached = new Set<string>();
+  let remaining = Math.floor(contextTokens * MENTION_CONTEXT_SHARE);
+  let fileCount = 0;
+
+  for (const mention of findMentions(text)) {
+    const files = await matchFiles(projectRoot, mention).catch((error: Error) => `couldn't list files (${error.message})`);
+    if (typeof files === 'string') {
+      report.push(`@${mention.token}: ${files}`);
+      continue;
+    }
+    const single = files.length === 1 && !/[*?[{]/.test(mention.path) && !mention.path.endsWith('/');
+
+    let added = 0;
+    let cut = 0;
+    let bytes = 0;
+    const skipped: string[] = [];
+    for (const path of files) {
+      const key = `${path}:${mention.range?.start ?? ''}-${mention.range?.end ?? ''}`;
+      if (attached.has(key)) continue;
+      if (fileCount >= MAX_MENTION_FILES || remaining <= 0) {
+        skipped.push(path);
+        continue;
+      }
+
+      // Broken symlinks, unreadable files and the like are reported, not fatal
+      let content: string;
+      try {
+        const fullPath = join(projectRoot, path);
+        const info = await stat(fullPath);
+        if (!info.isFile()) {
+          report.push(`@${mention.token}: skipped ${path} (not a regular file)`);
+          continue;
+        }
+        if (info.size > MAX_MENTION_FILE_SIZE) {
+          report.push(`@${mention.token}: skipped ${path} (${formatSize(info.size)}, over ${formatSize(MAX_MENTION_FILE_SIZE)})`);
+          continue;
+        }
+        if (await isBinaryFile(fullPath)) {
+          if (single) report.push(`@${mention.token}: binary file, not attached`);
+          continue;
+        }
+        content = await readFile(fullPath, 'utf-8');
+      } catch (error) {
+        const err = error as NodeJS.ErrnoException;
+        report.push(`@${mention.token}: skipped ${path} (${err.code === 'ENOENT' ? 'broken link' : err.code ?? err.message})`);
+        continue;
+      }
+      const lines = content.split('\n');
+      if (lines[lines.length - 1] === '') lines.pop();
+
+      let start = 1;
+      let end = lines.length;
+      if (mention.range && single) {
+        if (mention.range.start < 1 || mention.range.start > lines.length || mention.range.end < mention.range.start) {
+          report.push(`@${mention.token}: no such lines (${path} has ${lines.length})`);
+          continue;
+        }
+        start = mention.range.start;
+        end = Math.min(mention.range.end, lines.length);
+      }
+
+      // Drop lines from the end until the block fits what's left of the budget
+      let shown = lines.slice(start - 1, end);
+      let body = numberLines(shown, start);
+      while (shown.length > 0 && estimateTokens(body) > remaining) {
+        shown = shown.slice(0, Math.min(shown.length - 1, Math.floor(shown.length * remaining / estimateTokens(body))));
+        body = numberLines(shown, start);
+      }
+      if (shown.length === 0 && end >= start) {
+        skipped.push(path);
+        remaining = 0;
+        continue;
+      }
+      const last = start + shown.length - 1;
+      const truncated = last < end;
+      const note = truncated ? `\n... (cut to fit; use read_file with offset ${last + 1} to read on)` : '';
+      const span = lines.length === 0 ? 'empty' : `${start}-${last} of ${lines.length}`;
+      const block = `<file path="${path}" lines="${span}"${truncated ? ' truncated="true"' : ''}>\n${body || '(empty file)'}${note}\n</file>`;
+      blocks.push(block);
+      remaining -= estimateTokens(block);
+      attached.add(key);
+      fileCount++;
+      added++;
+      if (truncated) cut++;
+      bytes += Buffer.byteLength(content);
+
+      if (single) {
+        const what = start === 1 && last === lines.length
+          ? `${lines.length} line${lines.length === 1 ? '' : 's'}, ${formatSize(bytes)}`
+          : `${start === last ? `line ${start}` : `lines ${start}-${last}`} of ${lines.length}, ${formatSize(bytes)}`;
+        report.push(`Attached ${path} (${what}${truncated ? ', cut to fit the context' : ''})`);
+      }
+    }
+
+    if (!single && added > 0) {
+      report.push(`Attached @${mention.token}: ${added} file${added === 1 ? '' : 's'}, ${formatSize(bytes)}${cut > 0 ? ` (${cut} cut to fit the context)` : ''}`);
+    }
+    if (skipped.length > 0) {
+      report.push(`@${mention.token}: left out ${skipped.length} file${skipped.length === 1 ? '' : 's'} over the limit (${skipped.slice(0, 3).join(', ')}${skipped.length > 3 ? ', ...' : ''})`);
+    }
+  }
+
+  const attachment = blocks.length > 0
+    ? `Files the user referenced with @ (line numbers are not part of the files):\n\n${blocks.join('\n\n')}`
+    : '';
+  return { attachment, report };
+}
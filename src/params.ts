@@ -0,0 +1,135 @@
+import type { Config } from './config.js';
+
+/** Sampling settings sent with each request. Unset fields use the server's defaults. */
+export interface GenerationParams {
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  stop?: string[];
+  seed?: number;
+}
+
+/** GenerationParams as written in config: may start from a named preset. */
+export interface GenerationSettings extends GenerationParams {
+  preset?: string;
+}
+
+export const BUILTIN_PRESETS: Record<string, GenerationParams> = {
+  precise: { temperature: 0.2, topP: 0.9 },
+  balanced: { temperature: 0.7, topP: 0.95 },
+  creative: { temperature: 1.0, topP: 0.98 },
+};
+
+const PARAM_KEYS: Array<keyof GenerationParams> = ['temperature', 'topP', 'maxTokens', 'stop', 'seed'];
+
+// As shown to users and accepted by /set, matching the OpenAI request fields
+const PARAM_NAMES: Record<keyof GenerationParams, string> = {
+  temperature: 'temperature',
+  topP: 'top_p',
+  maxTokens: 'max_tokens',
+  stop: 'stop',
+  seed: 'seed',
+};
+
+export function getPresets(config: Config): Record<string, GenerationParams> {
+  return { ...BUILTIN_PRESETS, ...config.presets };
+}
+
+/** Expand a settings layer: its preset first, then its own fields. Unknown presets are ignored. */
+function expand(settings: GenerationSettings | undefined, presets: Record<string, GenerationParams>): GenerationParams {
+  if (!settings) return {};
+  const { preset, ...own } = settings;
+  const base = preset ? presets[preset] ?? {} : {};
+  return { ...base, ...definedOnly(own) };
+}
+
+function definedOnly(params: GenerationParams): GenerationParams {
+  const result: GenerationParams = {};
+  for (const key of PARAM_KEYS) {
+    if (params[key] !== undefined) (result as Record<string, unknown>)[key] = params[key];
+  }
+  return result;
+}
+
+/**
+ * Parameters for a model on a server: config.generation, then the server's
+ * generation settings, then config.modelGeneration (keyed by model id or a
+ * substring of it), then any session overrides. Later layers win per field.
+ */
+export function resolveGenerationParams(
+  config: Config,
+  serverName: string,
+  model: string | null,
+  overrides: GenerationSettings = {}
+): GenerationParams {
+  const presets = getPresets(config);
+  const server = config.servers.find(s => s.name === serverName);
+
+  const byModel = config.modelGeneration ?? {};
+  let modelSettings: GenerationSettings | undefined;
+  if (model) {
+    const key = byModel[model] ? model : Object.keys(byModel).find(k => model.toLowerCase().includes(k.toLowerCase()));
+    modelSettings = key ? byModel[key] : undefined;
+  }
+
+  return {
+    ...expand(config.generation, presets),
+    ...expand(server?.generation, presets),
+    ...expand(modelSettings, presets),
+    ...expand(overrides, presets),
+  };
+}
+
+/** Map "top_p", "top-p" or "topP" to the GenerationParams key. */
+export function findParamKey(name: string): keyof GenerationParams | undefined {
+  const normalized = name.toLowerCase().replace(/[-_]/g, '');
+  return PARAM_KEYS.find(key => key.toLowerCase() === normalized);
+}
+
+/**
+ * Parse a value for one parameter, e.g. from "/set temperature 0.2" or
+ * "--max-tokens 512". Throws with a readable message if it's out of range.
+ */
+export function parseParamValue<K extends keyof GenerationParams>(key: K, values: string[]): GenerationParams[K] {
+  const name = PARAM_NAMES[key];
+  if (values.length === 0 || values.every(v => !v)) {
+    throw new Error(`${name} needs a value`);
+  }
+  if (key === 'stop') {
+    return values.filter(Boolean) as GenerationParams[K];
+  }
+
+  const value = Number(values[0]);
+  if (values[0].trim() === '' || !Number.isFinite(value)) {
+    throw new Error(`${name} must be a number, got "${values[0]}"`);
+  }
+  if (key === 'temperature' && value < 0) {
+    throw new Error('temperature must be 0 or more');
+  }
+  if (key === 'topP' && (value <= 0 || value > 1)) {
+    throw new Error('top_p must be greater than 0 and at most 1');
+  }
+  if ((key === 'maxTokens' || key === 'seed') && !Number.isInteger(value)) {
+    throw new Error(`${name} must be a whole number`);
+  }
+  if (key === 'maxTokens' && value < 1) {
+    throw new Error('max_tokens must be at least 1');
+  }
+  return value as GenerationParams[K];
+}
+
+export function getParamName(key: keyof GenerationParams): string {
+  return PARAM_NAMES[key];
+}
+
+export function getParamNames(): string[] {
+  return PARAM_KEYS.map(key => PARAM_NAMES[key]);
+}
+
+/** "temperature 0.2 · top_p 0.9 · stop ["###"]", or "server defaults" when nothing is set. */
+export function formatGenerationParams(params: GenerationParams): string {
+  const parts = PARAM_KEYS
+    .filter(key => params[key] !== undefined)
+    .map(key => `${PARAM_NAMES[key]} ${key === 'stop' ? JSON.stringify(params.stop) : params[key]}`);
+  return parts.length > 0 ? parts.join(' · ') : 'server defaults';
+}
@@ -0,0 +1,150 @@
+export interface PatchHunk {
+  oldStart: number | null;
+  lines: string[];
+}
+
+export interface FilePatch {
+  oldPath: string | null;
+  newPath: string | null;
+  hunks: PatchHunk[];
+}
+
+// Line numbers are optional: a bare "@@" hunk is located purely by context
+const HUNK_HEADER = /^@@(?:\s+-(\d+)(?:,\d+)?\s+\+\d+(?:,\d+)?\s+@@)?/;
+
+function stripPathPrefix(raw: string): string | null {
+  // Drop trailing timestamps ("--- a/file\t2024-01-01 ...")
+  const path = raw.split('\t')[0].trim();
+  if (path === '/dev/null') return null;
+  if (path.startsWith('a/') || path.startsWith('b/')) return path.slice(2);
+  return path;
+}
+
+/**
+ * Parse a unified diff into per-file patches. Line counts in hunk headers are
+ * ignored (models routinely get them wrong); hunks are located by content.
+ */
+export function parsePatch(text: string): FilePatch[] {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  const patches: FilePatch[] = [];
+  let current: FilePatch | null = null;
+  let hunk: PatchHunk | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      current = {
+        oldPath: stripPathPrefix(line.slice(4)),
+        newPath: stripPathPrefix(lines[i + 1].slice(4)),
+        hunks: [],
+      };
+      patches.push(current);
+      hunk = null;
+      i++;
+      continue;
+    }
+
+    const header = line.match(HUNK_HEADER);
+    if (header) {
+      if (!current) {
+        throw new Error(`Hunk header before file header at patch line ${i + 1}`);
+      }
+      hunk = { oldStart: header[1] ? parseInt(header[1], 10) : null, lines: [] };
+      current.hunks.push(hunk);
+      continue;
+    }
+
+    if (!hunk) continue; // Skip "diff --git", "index ..." and other preamble
+
+    if (line.startsWith('\\')) continue; // "\ No newline at end of file"
+    if (line.startsWith(' ') || line.startsWith('+') || line.startsWith('-')) {
+      hunk.lines.push(line);
+    } else if (line === '') {
+      // Some models drop the leading space on blank context lines
+      hunk.lines.push(' ');
+    } else {
+      hunk = null;
+    }
+  }
+
+  if (patches.length === 0) {
+    throw new Error('No file headers found (expected "--- a/path" and "+++ b/path" lines)');
+  }
+  for (const patch of patches) {
+    if (patch.newPath !== null && patch.hunks.length === 0) {
+      throw new Error(`No hunks found for ${patch.newPath}`);
+    }
+  }
+  return patches;
+}
+
+function matchesAt(fileLines: string[], at: number, expected: string[], loose: boolean): boolean {
+  if (at < 0 || at + expected.length > fileLines.length) return false;
+  for (let j = 0; j < expected.length; j++) {
+    const a = fileLines[at + j];
+    const b = expected[j];
+    if (loose ? a.trimEnd() !== b.trimEnd() : a !== b) return false;
+  }
+  return true;
+}
+
+function findHunk(fileLines: string[], expected: string[], hint: number, from: number): number {
+  for (const loose of [false, true]) {
+    // Search outward from the hinted position so the nearest match wins
+    const maxDistance = Math.max(hint - from, fileLines.length - hint);
+    for (let d = 0; d <= maxDistance; d++) {
+      if (hint + d >= from && matchesAt(fileLines, hint + d, expected, loose)) return hint + d;
+      if (d > 0 && hint - d >= from && matchesAt(fileLines, hint - d, expected, loose)) return hint - d;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Apply hunks to file content. Throws with a message describing the first
+ * hunk that could not be located.
+ */
+export function applyHunks(content: string, hunks: PatchHunk[]): string {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const hadTrailingNewline = content === '' || content.endsWith('\n');
+  const fileLines = content === '' ? [] : content.split(/\r?\n/);
+  if (hadTrailingNewline && fileLines.length > 0) fileLines.pop();
+
+  let cursor = 0;
+  let offset = 0;
+  hunks.forEach((hunk, index) => {
+    const before = hunk.lines.filter(l => !l.startsWith('+')).map(l => l.slice(1));
+    const after = hunk.lines.filter(l => !l.startsWith('-')).map(l => l.slice(1));
+
+    let at: number;
+    if (before.length === 0) {
+      // Pure insertion: trust the header, or append
+      at = hunk.oldStart !== null
+        ? Math.min(Math.max(hunk.oldStart + offset, cursor), fileLines.length)
+        : fileLines.length;
+    } else {
+      const hint = hunk.oldStart !== null ? Math.max(hunk.oldStart - 1 + offset, cursor) : cursor;
+      at = findHunk(fileLines, before, hint, cursor);
+      if (at === -1) {
+        const firstLine = before.find(l => l.trim()) ?? before[0];
+        throw new Error(
+          `Hunk ${index + 1} does not match the file: could not find the context starting with ${JSON.stringify(firstLine)}. Re-read the file and try again.`
+        );
+      }
+      if (hunk.oldStart === null && findHunk(fileLines, before, at + 1, at + 1) !== -1) {
+        throw new Error(
+          `Hunk ${index + 1} matches more than one location and has no line numbers. Add more context lines or line numbers to the @@ header.`
+        );
+      }
+    }
+
+    fileLines.splice(at, before.length, ...after);
+    cursor = at + after.length;
+    offset += after.length - before.length;
+  });
+
+  const joined = fileLines.join(eol);
+  return hadTrailingNewline && fileLines.length > 0 ? joined + eol : joined;
+}
@@ -0,0 +1,255 @@
+import { minimatch } from 'minimatch';
+import { relative, resolve, sep } from 'path';
+import { loadConfig, saveConfig } from './config.js';
+import { parsePatch } from './patch.js';
+
+export type PermissionAction = 'allow' | 'deny' | 'ask';
+
+/**
+ * A single permission rule. `tool` is a tool name, "*" for every tool, or
+ * the group "write" for every tool that modifies files. `path` is a glob
+ * matched against project-relative file paths (patterns without a slash
+ * match the file name anywhere; "./" anchors one to the root); `command` is a command prefix for run_command (and
+ * start_background, which run_command rules also cover).
+ */
+export interface PermissionRule {
+  tool: string;
+  action: PermissionAction;
+  path?: string;
+  command?: string;
+}
+
+export interface PermissionRules {
+  global: PermissionRule[];
+  project: PermissionRule[];
+}
+
+export interface PermissionDecision {
+  action: PermissionAction;
+  // The rule that decided it, or undefined for the built-in default
+  rule?: PermissionRule;
+}
+
+export const WRITE_TOOLS = ['write_file', 'edit_file', 'apply_patch'];
+
+// Tools that run a shell command; run_command rules cover all of them
+export const COMMAND_TOOLS = ['run_command', 'start_background'];
+
+function toolMatches(rule: PermissionRule, toolName: string): boolean {
+  if (rule.tool === '*' || rule.tool === toolName) return true;
+  if (rule.tool === 'run_command') return COMMAND_TOOLS.includes(toolName);
+  return rule.tool === 'write' && WRITE_TOOLS.includes(toolName);
+}
+
+// Patterns with a slash are matched from the project root; others match the
+// file name in any folder. A leading "./" anchors a pattern with no other slash
+function pathMatches(pattern: string, path: string): boolean {
+  const anchored = pattern.includes('/');
+  return minimatch(path, pattern.replace(/^\.\//, ''), { dot: true, matchBase: !anchored });
+}
+
+/**
+ * The pattern an "always allow" answer saves for a file: exactly that path,
+ * with any glob characters in it ("pages/[id].tsx") escaped.
+ */
+export function exactPathPattern(path: string): string {
+  return `./${minimatch.escape(path)}`;
+}
+
+// Programs that run whatever code they're given: "always allow" never saves
+// one of these on its own
+const INTERPRETERS = [
+  'sh', 'bash', 'zsh', 'fish', 'dash', 'ksh',
+  'python', 'python3', 'node', 'deno', 'bun', 'ruby', 'perl', 'php', 'lua', 'npx', 'bunx', 'pnpx',
+];
+
+// Programs that run the command after them ("sudo rm ...", "timeout 10 ..."),
+// so no prefix of theirs is safe to allow
+const COMMAND_WRAPPERS = [
+  'env', 'sudo', 'doas', 'timeout', 'nice', 'ionice', 'nohup', 'time', 'command', 'exec', 'eval', 'xargs',
+  'stdbuf', 'watch',
+];
+
+// Substitution, redirection and subshells can run or overwrite anything, so
+// an allow rule never covers a command that uses them
+const UNSAFE_SHELL_SYNTAX = /[`<>()]|\$\(/;
+
+/**
+ * Split a shell command on &&, ||, ;, |, & and newlines so each part is
+ * checked on its own: "npm test && rm -rf x" must not pass as "npm test".
+ */
+export function splitCommand(command: string): string[] {
+  return command
+    .split(/&&|\|\||[;|&\n]/)
+    .map(part => part.trim())
+    .filter(Boolean);
+}
+
+function commandMatches(prefix: string, command: string): boolean {
+  const normalized = command.replace(/\s+/g, ' ');
+  const normalizedPrefix = prefix.trim().replace(/\s+/g, ' ');
+  return normalized === normalizedPrefix || normalized.startsWith(normalizedPrefix + ' ');
+}
+
+/**
+ * For deny and ask rules: whether the prefix appears anywhere in the command
+ * as whole words, including inside quotes, subshells and substitutions, so
+ * "bash -c 'rm -rf x'" and "echo $(rm -rf x)" still count as "rm -rf".
+ */
+function commandMentions(prefix: string, command: string): boolean {
+  const words = (text: string) => text.replace(/\$\(|[`'"(){}<>;&|\s]+/g, ' ').trim();
+  const normalizedPrefix = words(prefix);
+  return normalizedPrefix !== '' && ` ${words(command)} `.includes(` ${normalizedPrefix} `);
+}
+
+/**
+ * Suggest a reusable prefix for an "always allow" answer: the program plus
+ * its subcommand, e.g. "npm test" for "npm test -- --watch". When the second
+ * word is a flag ("python -c ...") the whole command is kept, and an
+ * interpreter is never allowed on its own. Wrappers such as sudo or timeout
+ * run whatever follows them, and rules match by prefix, so for them nothing
+ * is remembered. Returns null when there's nothing safe to remember.
+ */
+export function suggestCommandPrefix(command: string): string | null {
+  const words = command.trim().split(/\s+/);
+  // "FOO=1 cmd" is a wrapper too
+  if (COMMAND_WRAPPERS.includes(words[0]) || /^\w+=/.test(words[0])) return null;
+  if (words.length > 1 && !words[1].startsWith('-')) {
+    return `${words[0]} ${words[1]}`;
+  }
+  if (words.length > 1) {
+    return words.join(' ');
+  }
+  return INTERPRETERS.includes(words[0]) ? null : words[0];
+}
+
+/**
+ * A path as the model gave it, relative to the project with forward slashes,
+ * so "src/../.env" and an absolute path meet the same rules as ".env".
+ */
+export function normalizeToolPath(projectRoot: string, path: string): string {
+  return relative(projectRoot, resolve(projectRoot, path)).split(sep).join('/');
+}
+
+/**
+ * Paths a tool call would touch, for path-pattern rules. Tools that take
+ * globs rather than paths (list_files, search_files) return none.
+ */
+export function getToolPaths(toolName: string, args: Record<string, unknown>, projectRoot: string): string[] {
+  let paths: string[] = [];
+  if (toolName === 'apply_patch') {
+    try {
+      paths = parsePatch(String(args.patch ?? ''))
+        .map(p => p.newPath ?? p.oldPath)
+        .filter((p): p is string => p !== null);
+    } catch {
+      return [];
+    }
+  } else if (typeof args.path === 'string') {
+    paths = [args.path];
+  }
+  return paths.map(path => normalizeToolPath(projectRoot, path));
+}
+
+function ruleApplies(
+  rule: PermissionRule,
+  toolName: string,
+  args: Record<string, unknown>,
+  projectRoot: string
+): boolean {
+  if (!toolMatches(rule, toolName)) return false;
+
+  if (rule.command !== undefined) {
+    if (!COMMAND_TOOLS.includes(toolName)) return false;
+    const command = String(args.command ?? '');
+    // Deny and ask trigger anywhere in the command; allow must cover every part
+    if (rule.action !== 'allow') return commandMentions(rule.command, command);
+    const parts = splitCommand(command);
+    return !UNSAFE_SHELL_SYNTAX.test(command) && parts.length > 0 && parts.every(part => commandMatches(rule.command!, part));
+  }
+
+  if (rule.path !== undefined) {
+    const paths = getToolPaths(toolName, args, projectRoot);
+    return rule.action === 'allow'
+      ? paths.length > 0 && paths.every(p => pathMatches(rule.path!, p))
+      : paths.some(p => pathMatches(rule.path!, p));
+  }
+
+  return true;
+}
+
+function defaultAction(toolName: string): PermissionAction {
+  return COMMAND_TOOLS.includes(toolName) || WRITE_TOOLS.includes(toolName) ? 'ask' : 'allow';
+}
+
+/**
+ * Decide whether a tool call may run. Among matching rules (project and
+ * global alike) deny beats ask beats allow; with no match, read-only tools
+ * are allowed and file changes and commands ask.
+ */
+export function checkPermission(
+  rules: PermissionRules,
+  toolName: string,
+  args: Record<string, unknown>,
+  projectRoot: string
+): PermissionDecision {
+  const matching = [...rules.project, ...rules.global].filter(rule => ruleApplies(rule, toolName, args, projectRoot));
+
+  for (const action of ['deny', 'ask', 'allow'] as const) {
+    const rule = matching.find(r => r.action === action);
+    if (rule) return { action, rule };
+  }
+  return { action: defaultAction(toolName) };
+}
+
+export function describeRule(rule: PermissionRule): string {
+  const target = rule.command !== undefined
+    ? ` "${rule.command}"`
+    : rule.path !== undefined
+      ? ` ${rule.path}`
+      : '';
+  return `${rule.action} ${rule.tool}${target}`;
+}
+
+export async function loadPermissionRules(projectRoot: string): Promise<PermissionRules> {
+  const config = await loadConfig();
+  return {
+    global: config.permissions,
+    project: config.projectPermissions[projectRoot] ?? [],
+  };
+}
+
+export async function addPermissionRule(
+  rule: PermissionRule,
+  scope: 'global' | 'project',
+  projectRoot: string
+): Promise<void> {
+  const config = await loadConfig();
+  const sameRule = (r: PermissionRule) =>
+    r.tool === rule.tool && r.path === rule.path && r.command === rule.command;
+
+  if (scope === 'global') {
+    config.permissions = [...config.permissions.filter(r => !sameRule(r)), rule];
+  } else {
+    const existing = config.projectPermissions[projectRoot] ?? [];
+    config.projectPermissions[projectRoot] = [...existing.filter(r => !sameRule(r)), rule];
+  }
+  await saveConfig(config);
+}
+
+export async function removePermissionRule(
+  index: number,
+  scope: 'global' | 'project',
+  projectRoot: string
+): Promise<PermissionRule | null> {
+  const config = await loadConfig();
+  const list = scope === 'global' ? config.permissions : config.projectPermissions[projectRoot] ?? [];
+  if (index < 0 || index >= list.length) return null;
+
+  const [removed] = list.splice(index, 1);
+  if (scope === 'project') {
+    config.projectPermissions[projectRoot] = list;
+  }
+  await saveConfig(config);
+  return removed;
+}
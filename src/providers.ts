@@ -0,0 +1,418 @@
+import type { ChatMessage, Model, ModelsResponse, StreamChunk, ToolDefinition } from './client.js';
+import type { LLMServer } from './config.js';
+import type { GenerationParams } from './params.js';
+
+/**
+ * Backend types:
+ * - lmstudio: LM Studio's OpenAI-compatible API, plus its REST API for context size
+ * - llamacpp: llama.cpp's llama-server (OpenAI-compatible, /props for context size)
+ * - openai: any other OpenAI-compatible endpoint (vLLM, proxies, hosted APIs)
+ * - ollama: Ollama's native /api/chat
+ */
+export type ProviderType = 'lmstudio' | 'llamacpp' | 'openai' | 'ollama';
+
+export const PROVIDER_TYPES: ProviderType[] = ['lmstudio', 'llamacpp', 'openai', 'ollama'];
+
+export const DEFAULT_PORTS: Record<ProviderType, number> = {
+  lmstudio: 1234,
+  llamacpp: 8080,
+  openai: 8000,
+  ollama: 11434,
+};
+
+export interface CompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  tools?: ToolDefinition[];
+  params?: GenerationParams;
+}
+
+/** One streamed increment, in the same shape whichever backend sent it. */
+export interface CompletionDelta {
+  content?: string;
+  reasoning?: string;
+  toolCalls?: Array<{ index: number; id?: string; name?: string; arguments?: string }>;
+  finishReason?: string | null;
+  // Token counts as reported by the server, usually on the last delta
+  usage?: { promptTokens: number; completionTokens: number };
+}
+
+/** A backend that can list models and stream chat completions. */
+export interface Provider {
+  readonly type: ProviderType;
+  // Where requests go, for messages like "Connecting to ..."
+  readonly url: string;
+  listModels(): Promise<Model[]>;
+  getContextLength(model: string): Promise<number | null>;
+  streamCompletion(request: CompletionRequest, signal?: AbortSignal): AsyncGenerator<CompletionDelta>;
+}
+
+/** A non-2xx response, kept so callers can react to the status and body. */
+export class HttpError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly body: string
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/** The connection dropped before the server finished the response. */
+export class StreamInterruptedError extends Error {
+  constructor(message = 'Connection closed before the response finished') {
+    super(message);
+    this.name = 'StreamInterruptedError';
+  }
+}
+
+/**
+ * The server's root URL: baseUrl if set (minus any trailing /v1), otherwise
+ * built from scheme, host and port.
+ */
+export function getServerUrl(server: LLMServer): string {
+  if (server.baseUrl) {
+    return server.baseUrl.replace(/\/+$/, '').replace(/\/v1$/, '');
+  }
+  const type = server.type ?? 'lmstudio';
+  return `${server.scheme ?? 'http'}://${server.host}:${server.port || DEFAULT_PORTS[type]}`;
+}
+
+/** Headers for every request: custom headers plus a bearer token if configured. */
+export function getServerHeaders(server: LLMServer): Record<string, string> {
+  const headers: Record<string, string> = { ...server.headers };
+  const apiKey = server.apiKeyEnv ? process.env[server.apiKeyEnv] : server.apiKey;
+  if (server.apiKeyEnv && !apiKey) {
+    throw new Error(`Environment variable ${server.apiKeyEnv} (API key for server "${server.name}") is not set`);
+  }
+  if (apiKey && !Object.keys(headers).some(h => h.toLowerCase() === 'authorization')) {
+    headers.Authorization = `Bearer ${apiKey}`;
+  }
+  return headers;
+}
+
+async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      yield line;
+    }
+  }
+  if (buffer) yield buffer;
+}
+
+async function checkResponse(response: Response, what: string): Promise<void> {
+  if (!response.ok) {
+    const body = await response.text();
+    throw new HttpError(`${what} failed: ${response.status} ${response.statusText}\n${body}`, response.status, body);
+  }
+}
+
+/** OpenAI-style /v1/chat/completions with server-sent events. */
+export class OpenAIProvider implements Provider {
+  readonly type: ProviderType;
+  readonly url: string;
+  private serverUrl: string;
+  private headers: Record<string, string>;
+  // Cleared if the server rejects stream_options
+  private includeUsage = true;
+
+  constructor(server: LLMServer) {
+    this.type = server.type ?? 'lmstudio';
+    this.serverUrl = getServerUrl(server);
+    this.url = `${this.serverUrl}/v1`;
+    this.headers = getServerHeaders(server);
+  }
+
+  async listModels(): Promise<Model[]> {
+    const response = await fetch(`${this.url}/models`, { headers: this.headers });
+    if (!response.ok) {
+      throw new Error(`Failed to list models: ${response.status} ${response.statusText}`);
+    }
+    const data = (await response.json()) as ModelsResponse;
+    return data.data;
+  }
+
+  /**
+   * LM Studio reports the loaded context through its REST API and llama.cpp
+   * through /props; generic servers don't say.
+   */
+  async getContextLength(model: string): Promise<number | null> {
+    try {
+      if (this.type === 'lmstudio') {
+        const response = await fetch(`${this.serverUrl}/api/v0/models/${encodeURIComponent(model)}`, { headers: this.headers });
+        if (!response.ok) return null;
+        const data = (await response.json()) as { loaded_context_length?: number; max_context_length?: number };
+        return data.loaded_context_length ?? data.max_context_length ?? null;
+      }
+      if (this.type === 'llamacpp') {
+        const response = await fetch(`${this.serverUrl}/props`, { headers: this.headers });
+        if (!response.ok) return null;
+        const data = (await response.json()) as { default_generation_settings?: { n_ctx?: number } };
+        return data.default_generation_settings?.n_ctx ?? null;
+      }
+    } catch {
+      // Fall through
+    }
+    return null;
+  }
+
+  async *streamCompletion(request: CompletionRequest, signal?: AbortSignal): AsyncGenerator<CompletionDelta> {
+    let response = await this.postCompletion(request, signal);
+
+    // Older or stricter servers reject stream_options; retry without usage
+    if (response.status === 400 && this.includeUsage) {
+      const body = await response.text();
+      if (!/stream_options|include_usage/i.test(body)) {
+        throw new HttpError(`Chat request failed: ${response.status} ${response.statusText}\n${body}`, response.status, body);
+      }
+      this.includeUsage = false;
+      response = await this.postCompletion(request, signal);
+    }
+
+    await checkResponse(response, 'Chat request');
+    if (!response.body) {
+      throw new Error('No response body');
+    }
+
+    let finished = false;
+    for await (const line of readLines(response.body)) {
+      const trimmed = line.trim();
+      if (trimmed === 'data: [DONE]') finished = true;
+      if (!trimmed || trimmed === 'data: [DONE]') continue;
+      if (!trimmed.startsWith('data: ')) continue;
+
+      let json: StreamChunk;
+      try {
+        json = JSON.parse(trimmed.slice(6)) as StreamChunk;
+      } catch {
+        continue; // Skip malformed JSON
+      }
+      if (json.usage) {
+        yield { usage: { promptTokens: json.usage.prompt_tokens, completionTokens: json.usage.completion_tokens } };
+      }
+      const choice = json.choices?.[0];
+      if (!choice) continue;
+
+      if (choice.finish_reason) finished = true;
+      const delta = choice.delta ?? {};
+      yield {
+        content: delta.content ?? undefined,
+        // Reasoning models served with a reasoning parser (LM Studio, vLLM, DeepSeek)
+        reasoning: delta.reasoning_content ?? delta.reasoning ?? undefined,
+        toolCalls: delta.tool_calls?.map(tc => ({
+          index: tc.index,
+          id: tc.id,
+          name: tc.function?.name,
+          arguments: tc.function?.arguments,
+        })),
+        finishReason: choice.finish_reason,
+      };
+    }
+
+    if (!finished) {
+      throw new StreamInterruptedError();
+    }
+  }
+
+  private postCompletion(request: CompletionRequest, signal?: AbortSignal): Promise<Response> {
+    const body: Record<string, unknown> = {
+      model: request.model,
+      messages: request.messages,
+      stream: true,
+    };
+
+    if (this.includeUsage) {
+      body.stream_options = { include_usage: true };
+    }
+
+    const params = request.params ?? {};
+    if (params.temperature !== undefined) body.temperature = params.temperature;
+    if (params.topP !== undefined) body.top_p = params.topP;
+    if (params.maxTokens !== undefined) body.max_tokens = params.maxTokens;
+    if (params.stop?.length) body.stop = params.stop;
+    if (params.seed !== undefined) body.seed = params.seed;
+
+    if (request.tools) {
+      body.tools = request.tools;
+      body.tool_choice = 'auto';
+    }
+
+    return fetch(`${this.url}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        ...this.headers,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+  }
+}
+
+interface OllamaChatChunk {
+  message?: {
+    content?: string;
+    thinking?: string;
+    tool_calls?: Array<{ function: { name: string; arguments: unknown } }>;
+  };
+  done?: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+/** Ollama's native API, which streams newline-delimited JSON. */
+export class OllamaProvider implements Provider {
+  readonly type: ProviderType = 'ollama';
+  readonly url: string;
+  private headers: Record<string, string>;
+
+  constructor(server: LLMServer) {
+    this.url = getServerUrl(server);
+    this.headers = getServerHeaders(server);
+  }
+
+  async listModels(): Promise<Model[]> {
+    const response = await fetch(`${this.url}/api/tags`, { headers: this.headers });
+    if (!response.ok) {
+      throw new Error(`Failed to list models: ${response.status} ${response.statusText}`);
+    }
+    const data = (await response.json()) as { models: Array<{ name: string }> };
+    return data.models.map(m => ({ id: m.name, object: 'model', owned_by: 'ollama' }));
+  }
+
+  /**
+   * Ollama truncates to the context it loaded the model with, not the
+   * model's maximum: prefer the running size, then a num_ctx parameter.
+   */
+  async getContextLength(model: string): Promise<number | null> {
+    try {
+      const running = await fetch(`${this.url}/api/ps`, { headers: this.headers });
+      if (running.ok) {
+        const data = (await running.json()) as { models?: Array<{ name: string; context_length?: number }> };
+        const loaded = data.models?.find(m => m.name === model);
+        if (loaded?.context_length) return loaded.context_length;
+      }
+
+      const response = await fetch(`${this.url}/api/show`, {
+        method: 'POST',
+        headers: { ...this.headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model }),
+      });
+      if (!response.ok) return null;
+      const data = (await response.json()) as { parameters?: string };
+      const match = data.parameters?.match(/^num_ctx\s+(\d+)/m);
+      return match ? parseInt(match[1], 10) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async *streamCompletion(request: CompletionRequest, signal?: AbortSignal): AsyncGenerator<CompletionDelta> {
+    const body: Record<string, unknown> = {
+      model: request.model,
+      messages: request.messages.map(toOllamaMessage),
+      stream: true,
+    };
+    if (request.tools) {
+      body.tools = request.tools;
+    }
+
+    // Ollama takes sampling settings as model options, with its own names
+    const params = request.params ?? {};
+    const options: Record<string, unknown> = {};
+    if (params.temperature !== undefined) options.temperature = params.temperature;
+    if (params.topP !== undefined) options.top_p = params.topP;
+    if (params.maxTokens !== undefined) options.num_predict = params.maxTokens;
+    if (params.stop?.length) options.stop = params.stop;
+    if (params.seed !== undefined) options.seed = params.seed;
+    if (Object.keys(options).length > 0) body.options = options;
+
+    const response = await fetch(`${this.url}/api/chat`, {
+      method: 'POST',
+      headers: {
+        ...this.headers,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    await checkResponse(response, 'Chat request');
+    if (!response.body) {
+      throw new Error('No response body');
+    }
+
+    // Ollama sends each tool call whole, so each gets its own index
+    let toolIndex = 0;
+    let finished = false;
+    for await (const line of readLines(response.body)) {
+      if (!line.trim()) continue;
+
+      let chunk: OllamaChatChunk;
+      try {
+        chunk = JSON.parse(line) as OllamaChatChunk;
+      } catch {
+        continue;
+      }
+      if (chunk.error) {
+        throw new Error(`Chat request failed: ${chunk.error}`);
+      }
+
+      if (chunk.done) finished = true;
+      const message = chunk.message ?? {};
+      yield {
+        content: message.content || undefined,
+        reasoning: message.thinking || undefined,
+        toolCalls: message.tool_calls?.map(tc => ({
+          index: toolIndex++,
+          name: tc.function.name,
+          arguments: typeof tc.function.arguments === 'string'
+            ? tc.function.arguments
+            : JSON.stringify(tc.function.arguments ?? {}),
+        })),
+        finishReason: chunk.done ? chunk.done_reason ?? 'stop' : null,
+        usage: chunk.done && chunk.eval_count !== undefined
+          ? { promptTokens: chunk.prompt_eval_count ?? 0, completionTokens: chunk.eval_count }
+          : undefined,
+      };
+    }
+
+    if (!finished) {
+      throw new StreamInterruptedError();
+    }
+  }
+}
+
+// Ollama wants tool-call arguments as objects and content as a string
+function toOllamaMessage(message: ChatMessage): Record<string, unknown> {
+  const result: Record<string, unknown> = { role: message.role, content: message.content ?? '' };
+  if (message.tool_calls?.length) {
+    result.tool_calls = message.tool_calls.map(tc => {
+      let args: unknown = {};
+      try {
+        args = JSON.parse(tc.function.arguments || '{}');
+      } catch {
+        // Leave malformed arguments out; the tool result already reported them
+      }
+      return { function: { name: tc.function.name, arguments: args } };
+    });
+  }
+  return result;
+}
+
+export function createProvider(server: LLMServer): Provider {
+  return server.type === 'ollama' ? new OllamaProvider(server) : new OpenAIProvider(server);
+}
@@ -0,0 +1,105 @@
+const OPEN_TAG = '<think>';
+const CLOSE_TAG = '</think>';
+
+export interface TextPart {
+  // retract: text already given out as content turned out to be reasoning
+  type: 'content' | 'reasoning' | 'retract';
+  text: string;
+}
+
+function partialTagLength(text: string, tag: string): number {
+  for (let len = Math.min(tag.length - 1, text.length); len > 0; len--) {
+    if (text.endsWith(tag.slice(0, len))) return len;
+  }
+  return 0;
+}
+
+/**
+ * Streaming splitter for <think>...</think> blocks in model content. Text that
+ * might be the start of a tag is held back until the next chunk decides it.
+ *
+ * Some chat templates open the <think> block themselves (the DeepSeek-R1
+ * distills), so the model only ever sends </think>. Everything before it
+ * has been streamed as content by then; a retract part takes it back.
+ */
+export class ThinkTagSplitter {
+  private pending = '';
+  private inThink = false;
+  // Content given out before any tag, in case a </think> claims it
+  private sawTag = false;
+  private leadingContent = '';
+  // Drop the blank lines models put between </think> and the answer
+  private trimNextContent = false;
+
+  feed(text: string): TextPart[] {
+    this.pending += text;
+    const parts: TextPart[] = [];
+
+    while (this.pending) {
+      const tag = this.inThink ? CLOSE_TAG : OPEN_TAG;
+      const index = this.pending.indexOf(tag);
+      // A </think> that was never opened here
+      const stray = this.inThink ? -1 : this.pending.indexOf(CLOSE_TAG);
+
+      if (stray !== -1 && (index === -1 || stray < index)) {
+        if (!this.sawTag) {
+          // The template opened the block: all of the reply so far was reasoning
+          if (this.leadingContent) parts.push({ type: 'retract', text: this.leadingContent });
+          this.inThink = true;
+          this.emit(parts, this.pending.slice(0, stray));
+          this.inThink = false;
+        } else {
+          this.emit(parts, this.pending.slice(0, stray));
+        }
+        this.pending = this.pending.slice(stray + CLOSE_TAG.length);
+        this.sawTag = true;
+        this.trimNextContent = true;
+        continue;
+      }
+
+      if (index === -1) {
+        const hold = Math.max(partialTagLength(this.pending, tag), this.inThink ? 0 : partialTagLength(this.pending, CLOSE_TAG));
+        this.emit(parts, this.pending.slice(0, this.pending.length - hold));
+        this.pending = this.pending.slice(this.pending.length - hold);
+        break;
+      }
+
+      this.emit(parts, this.pending.slice(0, index));
+      this.pending = this.pending.slice(index + tag.length);
+      this.sawTag = true;
+      this.inThink = !this.inThink;
+      if (!this.inThink) this.trimNextContent = true;
+    }
+
+    return parts;
+  }
+
+  flush(): TextPart[] {
+    const parts: TextPart[] = [];
+    this.emit(parts, this.pending);
+    this.pending = '';
+    return parts;
+  }
+
+  private emit(parts: TextPart[], text: string): void {
+    if (!this.inThink && this.trimNextContent) {
+      text = text.replace(/^\s+/, '');
+      if (text) this.trimNextContent = false;
+    }
+    if (!text) return;
+
+    const type = this.inThink ? 'reasoning' : 'content';
+    if (type === 'content' && !this.sawTag) this.leadingContent += text;
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      parts.push({ type, text });
+    }
+  }
+}
+
+/** Remove <think> blocks from a finished reply, e.g. one loaded from an old session. */
+export function stripReasoning(content: string): string {
+  return content.replace(/<think>[\s\S]*?(<\/think>\s*|$)/g, '').replace(/^[\s\S]*?<\/think>\s*/, '');
+}
@@ -1,41 +1,157 @@
 import * as readline from 'readline';
+import { existsSync } from 'fs';
 import chalk from 'chalk';
-import { LLMClient, ChatMessage, ToolCall } from './client.js';
-import { toolDefinitions, executeTool } from './tools.js';
+import { LLMClient, ChatMessage, Model, ToolCall, createClient, findCompatibleModel } from './client.js';
+import { toolDefinitions, executeTool, createToolContext, ToolContext } from './tools.js';
+import { Session, createSession, saveSession, listSessions, findSession, repairHistory } from './sessions.js';
+import {
+  loadConfig,
+  loadEffectiveConfig,
+  saveConfig,
+  addServer,
+  removeServer,
+  setDefaultServer,
+  LLMServer,
+} from './config.js';
+import { promptForNewServer, describeServer, findServer } from './servers.js';
+import { buildSystemPrompt } from './prompt.js';
+import { CheckpointStore, RestoreResult } from './checkpoints.js';
+import { BackgroundJobs, describeJobStatus } from './background.js';
+import { colorizeDiff } from './diff.js';
+import { MarkdownRenderer, canRenderMarkdown } from './markdown.js';
+import { PromptInput } from './input.js';
+import { openInEditor } from './editor.js';
+import { resolveMentions } from './mentions.js';
+import {
+  GitState,
+  getGitState,
+  listChangedFiles,
+  getWorkingDiff,
+  getStagedDiff,
+  commitChanges,
+  draftCommitMessage,
+} from './git.js';
+import { normalizeToolCalls, prepareToolCall } from './arguments.js';
+import { ToolCallFormat, TOOL_CALL_FORMATS, resolveToolCallFormat } from './toolparsers.js';
+import { ResponseStats, UsageTracker, formatResponseStats } from './stats.js';
+import {
+  GenerationSettings,
+  resolveGenerationParams,
+  formatGenerationParams,
+  findParamKey,
+  parseParamValue,
+  getParamName,
+  getParamNames,
+  getPresets,
+} from './params.js';
+import {
+  ProjectInstructions,
+  loadInstructions,
+  buildInitPrompt,
+  getProjectInstructionsPath,
+  INSTRUCTIONS_FILE,
+} from './instructions.js';
+import { ContextLimit, resolveContextLimit, estimateRequestTokens, compactHistory } from './context.js';
+import {
+  PermissionAction,
+  loadPermissionRules,
+  addPermissionRule,
+  removePermissionRule,
+  describeRule,
+} from './permissions.js';
+
+// Offered by tab completion
+const COMMANDS = [
+  '/quit', '/exit', '/clear', '/model', '/models', '/server', '/servers', '/toolformat', '/set', '/thinking',
+  '/markdown', '/history', '/stats', '/permissions', '/init', '/undo', '/checkpoints', '/jobs', '/diff',
+  '/commit', '/editor', '/compact', '/save', '/sessions', '/resume', '/help',
+];
 
 export class Repl {
   private client: LLMClient;
   private projectRoot: string;
   private history: ChatMessage[] = [];
   private rl: readline.Interface | null = null;
+  private input: PromptInput | null = null;
+  private session: Session;
+  private contextLimit: ContextLimit = { tokens: 4096, source: 'default' };
+  private compactThreshold = 0.8;
+  // Set while a turn is running so Ctrl+C can cancel it
+  private abortController: AbortController | null = null;
+  private lastInterrupt = 0;
+  private instructions: ProjectInstructions = { global: null, project: null };
+  private gitState: GitState | null = null;
+  private checkpoints: CheckpointStore;
+  private jobs: BackgroundJobs;
+  // Told to the model with the next message, e.g. that files were reverted
+  private pendingNotes: string[] = [];
+  private showThinking = true;
+  private renderMarkdown = true;
+  // Token and speed numbers for this session, by model
+  private usage = new UsageTracker();
+  // Sampling settings from CLI flags and /set; these win over config
+  private generationOverrides: GenerationSettings;
 
-  constructor(client: LLMClient, projectRoot: string) {
+  constructor(client: LLMClient, projectRoot: string, generation: GenerationSettings = {}) {
     this.client = client;
     this.projectRoot = projectRoot;
+    this.generationOverrides = generation;
+    this.session = createSession(projectRoot, client.getModel());
+    this.checkpoints = new CheckpointStore(projectRoot);
+    this.jobs = new BackgroundJobs(projectRoot);
   }
 
   private getSystemPrompt(): string {
-    return `You are Aingel, a helpful coding assistant. You are working in the project directory: ${this.projectRoot}
+    return buildSystemPrompt(this.projectRoot, this.instructions, this.gitState);
+  }
+
+  /** Re-check the branch and dirty state, updating the system prompt if they changed. */
+  private async refreshGitState(): Promise<void> {
+    const state = await getGitState(this.projectRoot);
+    if (JSON.stringify(state) === JSON.stringify(this.gitState)) return;
+    this.gitState = state;
+    if (this.history.length > 0 && this.history[0].role === 'system') {
+      this.history[0] = { role: 'system', content: this.getSystemPrompt() };
+    }
+  }
 
-You have access to these tools:
-- read_file: Read file contents
-- write_file: Create or update files
-- list_files: List files matching a glob pattern
-- search_files: Search for text/regex in files
-- run_command: Execute shell commands (requires user confirmation)
+  /**
+   * Re-read AINGEL.md files and refresh the system prompt in place, so edits
+   * take effect without clearing the conversation.
+   */
+  private async reloadInstructions(): Promise<void> {
+    this.instructions = await loadInstructions(this.projectRoot);
+    if (this.history.length > 0 && this.history[0].role === 'system') {
+      this.history[0] = { role: 'system', content: this.getSystemPrompt() };
+    }
 
-Always use relative paths from the project root. Be concise and helpful.`;
+    for (const source of [this.instructions.global, this.instructions.project]) {
+      if (!source) continue;
+      const note = source.truncated ? ' (truncated, file is very large)' : '';
+      console.log(chalk.gray(`  Loaded instructions from ${source.path}${note}`));
+    }
   }
 
-  async start(): Promise<void> {
-    this.history = [
-      { role: 'system', content: this.getSystemPrompt() },
-    ];
+  async start(resume?: Session): Promise<void> {
+    await this.refreshModelSettings();
+    await this.refreshGitState();
+    await this.reloadInstructions();
 
-    this.rl = readline.createInterface({
-      input: process.stdin,
-      output: process.stdout,
-    });
+    if (resume) {
+      this.loadSession(resume);
+    } else {
+      this.history = [
+        { role: 'system', content: this.getSystemPrompt() },
+      ];
+    }
+
+    this.input = await PromptInput.create(this.projectRoot, COMMANDS);
+    this.rl = this.input.rl;
+
+    // Readline sees Ctrl+C while it owns the terminal; the process signal
+    // covers the times a nested prompt has put the terminal back in cooked mode
+    this.rl.on('SIGINT', () => this.handleInterrupt());
+    process.on('SIGINT', () => this.handleInterrupt());
 
     console.log(chalk.green('\n  Ready! Type your message or /help for commands.\n'));
 
@@ -43,7 +159,7 @@ Always use relative paths from the project root. Be concise and helpful.`;
   }
 
   private prompt(): void {
-    this.rl?.question(chalk.cyan('  You: '), async (input) => {
+    this.input?.read(chalk.cyan('  You: '), chalk.cyan('   ... ')).then(async (input) => {
       const trimmed = input.trim();
 
       if (!trimmed) {
@@ -53,7 +169,12 @@ Always use relative paths from the project root. Be concise and helpful.`;
 
       // Handle commands
       if (trimmed.startsWith('/')) {
-        await this.handleCommand(trimmed);
+        try {
+          await this.handleCommand(trimmed);
+        } catch (error) {
+          // e.g. a config file that was broken by hand mid-session
+          console.log(chalk.red(`  ${(error as Error).message}\n`));
+        }
         this.prompt();
         return;
       }
@@ -61,6 +182,10 @@ Always use relative paths from the project root. Be concise and helpful.`;
       // Process user message
       await this.processMessage(trimmed);
       this.prompt();
+    }).catch((error: Error) => {
+      // Whatever went wrong, keep the session going
+      console.log(chalk.red(`\n  Error: ${error.message}\n`));
+      this.prompt();
     });
   }
 
@@ -72,30 +197,175 @@ Always use relative paths from the project root. Be concise and helpful.`;
       case 'quit':
       case 'exit':
       case 'q':
-        console.log(chalk.yellow('\n  Goodbye!\n'));
-        this.rl?.close();
-        process.exit(0);
+        await this.quit();
         break;
 
       case 'clear':
         this.history = [
           { role: 'system', content: this.getSystemPrompt() },
         ];
+        // The previous conversation stays saved; start a fresh session
+        this.session = createSession(this.projectRoot, this.client.getModel());
+        this.usage.reset();
         console.log(chalk.yellow('  Conversation cleared.\n'));
         break;
 
+      case 'save': {
+        const title = parts.slice(1).join(' ').trim();
+        if (title) this.session.title = title;
+        if (await this.autosave()) {
+          console.log(chalk.green(`  ✓ Saved session ${this.session.id}\n`));
+        } else {
+          console.log(chalk.gray('  Nothing to save yet.\n'));
+        }
+        break;
+      }
+
+      case 'sessions':
+        await this.listSavedSessions();
+        break;
+
+      case 'resume': {
+        const ref = parts[1];
+        if (!ref) {
+          console.log(chalk.red('  Usage: /resume <id or number from /sessions>\n'));
+          break;
+        }
+        const session = await findSession(this.projectRoot, ref);
+        if (!session) {
+          console.log(chalk.red(`  Session not found: ${ref}\n`));
+          break;
+        }
+        await this.autosave();
+        this.loadSession(session);
+        break;
+      }
+
       case 'model':
-        console.log(chalk.blue(`  Current model: ${this.client.getModel()}\n`));
+        console.log(chalk.blue(`  Current model: ${this.client.getModel()}`));
+        console.log(chalk.gray(`  Server: ${this.client.getServerName()} (${this.client.getUrl()})`));
+        console.log(chalk.gray(`  Tool-call format: ${this.client.getToolCallFormat()}`));
+        console.log(chalk.gray(`  Parameters: ${formatGenerationParams(this.client.getGenerationParams())}\n`));
+        break;
+
+      case 'set':
+        await this.handleSet(parts.slice(1).filter(Boolean));
+        break;
+
+      case 'thinking': {
+        const setting = parts[1]?.toLowerCase();
+        if (setting !== 'on' && setting !== 'off') {
+          console.log(chalk.blue(`  Reasoning output is ${this.showThinking ? 'shown' : 'hidden'}. Use /thinking on|off to change it.\n`));
+          break;
+        }
+        this.showThinking = setting === 'on';
+        const config = await loadConfig();
+        config.showThinking = this.showThinking;
+        await saveConfig(config);
+        console.log(chalk.green(`  ✓ Reasoning output ${this.showThinking ? 'shown' : 'hidden'}\n`));
+        break;
+      }
+
+      case 'markdown': {
+        const setting = parts[1]?.toLowerCase();
+        if (setting !== 'on' && setting !== 'off') {
+          const note = this.renderMarkdown && !canRenderMarkdown() ? ' (but not now: output is piped or NO_COLOR is set)' : '';
+          console.log(chalk.blue(`  Markdown rendering is ${this.renderMarkdown ? 'on' : 'off'}${note}. Use /markdown on|off to change it.\n`));
+          break;
+        }
+        this.renderMarkdown = setting === 'on';
+        const config = await loadConfig();
+        config.renderMarkdown = this.renderMarkdown;
+        await saveConfig(config);
+        console.log(chalk.green(`  ✓ Markdown rendering ${this.renderMarkdown ? 'on' : 'off'}\n`));
+        break;
+      }
+
+      case 'toolformat':
+        await this.handleToolFormat(parts[1]);
         break;
 
       case 'models':
         await this.listAndSelectModel();
         break;
 
-      case 'history':
-        console.log(chalk.blue(`  Messages in history: ${this.history.length}\n`));
+      case 'servers':
+        await this.listServers();
+        break;
+
+      case 'server':
+        await this.handleServer(parts.slice(1));
+        break;
+
+      case 'history': {
+        const used = estimateRequestTokens(this.history, toolDefinitions);
+        const { tokens, source } = this.contextLimit;
+        const percent = Math.round((used / tokens) * 100);
+        console.log(chalk.blue(`  Messages in history: ${this.history.length}`));
+        console.log(chalk.blue(`  Context: ~${used.toLocaleString()} / ${tokens.toLocaleString()} tokens (${percent}%, limit from ${source})`));
+        console.log(chalk.gray(`  Auto-compacts at ${Math.round(this.compactThreshold * 100)}%.\n`));
+        break;
+      }
+
+      case 'stats':
+        this.showStats();
+        break;
+
+      case 'compact':
+        await this.compact(true);
+        await this.autosave();
+        break;
+
+      case 'init': {
+        const exists = existsSync(getProjectInstructionsPath(this.projectRoot));
+        console.log(chalk.gray(`  Asking the model to ${exists ? 'update' : 'draft'} ${INSTRUCTIONS_FILE}...`));
+        await this.processMessage(buildInitPrompt(exists));
+        await this.reloadInstructions();
+        break;
+      }
+
+      case 'undo': {
+        try {
+          const undone = await this.checkpoints.undo();
+          if (!undone) {
+            console.log(chalk.gray('  Nothing to undo.\n'));
+            break;
+          }
+          console.log(chalk.green(`  ✓ Reverted changes from: ${undone.checkpoint.label}`));
+          this.reportRestore(undone.result);
+        } catch (error) {
+          const err = error as Error;
+          console.log(chalk.red(`  Undo failed: ${err.message}\n`));
+        }
+        break;
+      }
+
+      case 'checkpoints':
+        await this.handleCheckpoints(parts.slice(1));
+        break;
+
+      case 'jobs':
+        await this.handleJobs(parts.slice(1));
+        break;
+
+      case 'diff':
+        await this.showDiff(parts[1] === 'all');
         break;
 
+      case 'commit':
+        await this.handleCommit(parts[1] === 'all');
+        break;
+
+      case 'permissions':
+        await this.handlePermissions(parts.slice(1));
+        break;
+
+      case 'editor': {
+        const message = this.composeInEditor(command.slice(cmd.length + 1).trim());
+        if (message) await this.processMessage(message);
+        break;
+      }
+
       case 'help':
         console.log(chalk.blue(`
   Available commands:
@@ -103,8 +373,32 @@ Always use relative paths from the project root. Be concise and helpful.`;
     /clear            - Clear conversation history
     /model            - Show current model
     /models           - List and switch models
-    /history          - Show message count
+    /server [name]    - Show the current server, or switch to another
+    /servers          - List configured servers
+    /server add       - Add a server; /server remove|default <name>
+    /toolformat [fmt] - Show or set how this model writes tool calls
+    /set [param val]  - Show or set temperature, top_p, max_tokens, stop, seed
+    /set preset <name>- Apply a parameter preset; /set reset to undo changes
+    /thinking on|off  - Show or hide reasoning models' thinking
+    /markdown on|off  - Format replies' markdown, or show them as plain text
+    /history          - Show message count and context usage
+    /stats            - Show token usage and speed for this session
+    /permissions      - View and edit tool permission rules
+    /init             - Have the model draft an AINGEL.md for this project
+    /undo             - Revert the file changes from the last turn
+    /checkpoints      - List checkpoints; /checkpoints restore <n> to go back
+    /jobs             - List background jobs; /jobs <n> shows output, /jobs stop <n>
+    /diff [all]       - Show Aingel's uncommitted changes (all: every change)
+    /commit [all]     - Commit them with a message the model drafts for you
+    /editor [text]    - Write a message in $EDITOR, then send it
+    /compact          - Summarize older messages to free up context
+    /save [title]     - Save this session (sessions also auto-save)
+    /sessions         - List saved sessions for this folder
+    /resume <id>      - Resume a saved session
     /help             - Show this help
+
+  End a line with \\ (or press Alt+Enter) to continue on the next one. Pasted
+  text can span lines. Tab completes commands and @paths; Up recalls earlier input.
 `));
         break;
 
@@ -113,35 +407,181 @@ Always use relative paths from the project root. Be concise and helpful.`;
     }
   }
 
+  /** /editor: write a long message in $EDITOR. Returns null if nothing was written. */
+  private composeInEditor(initial: string): string | null {
+    let text: string;
+    this.input?.suspend();
+    try {
+      text = openInEditor('message.md', initial ? `${initial}\n` : '').trim();
+    } catch (error) {
+      console.log(chalk.red(`  ${(error as Error).message}\n`));
+      return null;
+    }
+    if (!text) {
+      console.log(chalk.gray('  Empty message; nothing sent.\n'));
+      return null;
+    }
+
+    const lines = text.split('\n');
+    console.log(chalk.gray(`  ${lines.slice(0, 10).join('\n  ')}`));
+    if (lines.length > 10) console.log(chalk.gray(`  ... (${lines.length - 10} more lines)`));
+    return text;
+  }
+
   private async processMessage(userMessage: string): Promise<void> {
-    this.history.push({ role: 'user', content: userMessage });
+    this.abortController = new AbortController();
 
     try {
-      await this.getResponse();
+      const { attachment, report } = await resolveMentions(this.projectRoot, userMessage, this.contextLimit.tokens);
+      if (report.length > 0) {
+        console.log(chalk.gray(report.map(line => `  ${line}`).join('\n')));
+      }
+      const message = attachment ? `${userMessage}\n\n${attachment}` : userMessage;
+      // Taken only once the message is sure to be sent, so a failure above keeps them
+      const notes = this.pendingNotes.splice(0);
+      const content = notes.length > 0 ? `${notes.join('\n')}\n\n${message}` : message;
+      await this.refreshGitState();
+      this.history.push({ role: 'user', content });
+
+      const label = userMessage.replace(/\s+/g, ' ').trim();
+      this.checkpoints.begin(label.length > 50 ? label.slice(0, 47) + '...' : label);
+
+      const permissions = await loadPermissionRules(this.projectRoot);
+      await this.getResponse(createToolContext({
+        signal: this.abortController.signal,
+        permissions,
+        checkpoints: this.checkpoints,
+        background: this.jobs,
+      }));
     } catch (error) {
       const err = error as Error;
       console.log(chalk.red(`\n  Error: ${err.message}\n`));
+    } finally {
+      this.abortController = null;
     }
+
+    await this.autosave();
   }
 
-  private async getResponse(): Promise<void> {
+  /**
+   * Ctrl+C cancels the running turn; at an idle prompt it clears the line,
+   * and a second press within two seconds exits.
+   */
+  private handleInterrupt(): void {
+    if (this.abortController) {
+      this.abortController.abort();
+      return;
+    }
+
+    const now = Date.now();
+    if (now - this.lastInterrupt < 2000) {
+      void this.quit();
+      return;
+    }
+    this.lastInterrupt = now;
+    this.input?.discard();
+    this.rl?.write(null, { ctrl: true, name: 'u' });
+    console.log(chalk.gray('\n  (Press Ctrl+C again to exit)'));
+    this.rl?.prompt();
+  }
+
+  private async quit(): Promise<void> {
+    await this.autosave();
+    const stopped = await this.jobs.stopAll();
+    if (stopped > 0) {
+      console.log(chalk.gray(`  Stopped ${stopped} background job${stopped === 1 ? '' : 's'}.`));
+    }
+    console.log(chalk.yellow('\n  Goodbye!\n'));
+    this.input?.close();
+    process.exit(0);
+  }
+
+  private async getResponse(context: ToolContext): Promise<void> {
+    await this.compact(false);
+
     process.stdout.write(chalk.magenta('\n  Aingel: '));
 
+    const signal = context.signal;
+    // Raw text when piped, with NO_COLOR or after /markdown off
+    const markdown = new MarkdownRenderer(!(this.renderMarkdown && canRenderMarkdown()));
     let fullContent = '';
     let toolCalls: ToolCall[] = [];
+    let stats: ResponseStats | null = null;
 
-    for await (const chunk of this.client.chatStream(this.history, toolDefinitions)) {
-      if (chunk.type === 'content') {
-        process.stdout.write(chunk.content);
-        fullContent += chunk.content;
-      } else if (chunk.type === 'tool_calls') {
-        toolCalls = chunk.tool_calls;
+    // Reasoning is shown but never stored, so it doesn't use up context
+    let thinkingSince: number | null = null;
+    let contentSince: number | null = null;
+    const endThinking = () => {
+      if (thinkingSince === null) return;
+      if (!this.showThinking) {
+        process.stdout.write(chalk.dim(` ${((Date.now() - thinkingSince) / 1000).toFixed(1)}s`));
       }
+      process.stdout.write('\n\n  ');
+      thinkingSince = null;
+    };
+
+    try {
+      for await (const chunk of this.client.chatStream(this.history, toolDefinitions, signal)) {
+        if (chunk.type === 'reasoning') {
+          if (thinkingSince === null) {
+            thinkingSince = Date.now();
+            if (!this.showThinking) process.stdout.write(chalk.dim('(thinking...)'));
+          }
+          if (this.showThinking) process.stdout.write(chalk.dim(chunk.content));
+        } else if (chunk.type === 'content') {
+          contentSince ??= Date.now();
+          endThinking();
+          process.stdout.write(markdown.push(chunk.content));
+          fullContent += chunk.content;
+        } else if (chunk.type === 'retract') {
+          // Already on screen as the answer; mark it as thinking and keep it
+          // out of the history
+          process.stdout.write(markdown.flush() + chalk.dim(' (thinking)'));
+          markdown.reset();
+          fullContent = '';
+          thinkingSince = contentSince ?? Date.now();
+        } else if (chunk.type === 'tool_calls') {
+          toolCalls = chunk.tool_calls;
+        } else if (chunk.type === 'stats') {
+          stats = chunk.stats;
+          this.usage.record(stats);
+        } else if (chunk.type === 'retry' || chunk.type === 'failover') {
+          // The response starts over; drop what was shown of this attempt
+          console.log(chalk.yellow(`\n\n  ⟳ ${chunk.message}`));
+          fullContent = '';
+          toolCalls = [];
+          thinkingSince = null;
+          contentSince = null;
+          markdown.reset();
+          if (chunk.type === 'failover') {
+            await this.refreshModelSettings();
+          }
+          process.stdout.write(chalk.magenta('\n  Aingel: '));
+        }
+      }
+    } catch (error) {
+      if (!signal?.aborted) throw error;
+    }
+    process.stdout.write(markdown.flush());
+    endThinking();
+    const printStats = () => {
+      if (stats) console.log(chalk.gray(`  ${formatResponseStats(stats)}`));
+    };
+
+    if (signal?.aborted) {
+      // Keep what was streamed so far; half-received tool calls are dropped
+      if (fullContent) {
+        this.history.push({ role: 'assistant', content: `${fullContent}\n\n[Interrupted by user]` });
+      }
+      console.log(chalk.yellow('\n\n  Interrupted.\n'));
+      return;
     }
 
     // Handle tool calls
     if (toolCalls.length > 0) {
       console.log(''); // Newline after any content
+      printStats();
+      normalizeToolCalls(toolCalls);
 
       // Add assistant message with tool calls
       this.history.push({
@@ -152,22 +592,40 @@ Always use relative paths from the project root. Be concise and helpful.`;
 
       // Execute each tool and collect results
       for (const toolCall of toolCalls) {
-        console.log(chalk.yellow(`\n  [Tool: ${toolCall.function.name}]`));
+        // Every tool call needs a result, even the ones skipped by Ctrl+C
+        if (signal?.aborted) {
+          this.history.push({
+            role: 'tool',
+            content: 'Cancelled: the user interrupted before this tool ran.',
+            tool_call_id: toolCall.id,
+          });
+          continue;
+        }
 
-        let args: Record<string, unknown>;
-        try {
-          args = JSON.parse(toolCall.function.arguments);
-        } catch {
-          args = {};
+        console.log(chalk.yellow(`\n  [Tool: ${toolCall.function.name || '(unnamed)'}]`));
+
+        // Malformed calls go back to the model as errors so it can retry
+        const prepared = prepareToolCall(toolCall, toolDefinitions);
+        if (!prepared.ok) {
+          console.log(chalk.red(`  ${prepared.error.split('\n')[0]}`));
+          this.history.push({ role: 'tool', content: prepared.error, tool_call_id: toolCall.id });
+          continue;
+        }
+        if (prepared.repaired) {
+          console.log(chalk.gray('  (repaired malformed arguments)'));
         }
 
-        const result = await executeTool(toolCall.function.name, args, this.projectRoot);
+        const result = await executeTool(toolCall.function.name, prepared.args, this.projectRoot, context);
 
-        // Show abbreviated result
-        const preview = result.result.length > 200
-          ? result.result.slice(0, 200) + '...'
-          : result.result;
-        console.log(chalk.gray(`  ${preview.split('\n').join('\n  ')}`));
+        // Show abbreviated result; command output was already shown as it ran
+        if (toolCall.function.name === 'run_command') {
+          console.log(result.success ? chalk.gray('  ✓ Command finished') : chalk.red(`  ${result.result.split('\n')[0]}`));
+        } else {
+          const preview = result.result.length > 200
+            ? result.result.slice(0, 200) + '...'
+            : result.result;
+          console.log(chalk.gray(`  ${preview.split('\n').join('\n  ')}`));
+        }
 
         // Add tool result to history
         this.history.push({
@@ -177,17 +635,640 @@ Always use relative paths from the project root. Be concise and helpful.`;
         });
       }
 
+      // Save mid-turn so a crash during a long tool loop loses little
+      await this.autosave();
+
+      if (signal?.aborted) {
+        console.log(chalk.yellow('\n  Interrupted.\n'));
+        return;
+      }
+
       // Get follow-up response after tool execution
-      await this.getResponse();
+      await this.getResponse(context);
     } else if (fullContent) {
       console.log('\n');
+      printStats();
+      if (stats) console.log('');
       this.history.push({ role: 'assistant', content: fullContent });
     } else {
       console.log(chalk.gray('(no response)'));
+      printStats();
       console.log('');
     }
   }
 
+  private async handleCheckpoints(args: string[]): Promise<void> {
+    const checkpoints = this.checkpoints.list();
+
+    if (args[0] === 'restore') {
+      const num = parseInt(args[1], 10);
+      const checkpoint = checkpoints.find(c => c.id === num);
+      if (!checkpoint) {
+        console.log(chalk.red(`  No checkpoint numbered ${args[1] ?? ''}. Run /checkpoints to see the list.\n`));
+        return;
+      }
+      try {
+        const result = await this.checkpoints.restore(checkpoint.id);
+        console.log(chalk.green(`  ✓ Restored files to before: ${checkpoint.label}`));
+        this.reportRestore(result);
+      } catch (error) {
+        const err = error as Error;
+        console.log(chalk.red(`  Restore failed: ${err.message}\n`));
+      }
+      return;
+    }
+
+    if (checkpoints.length === 0) {
+      console.log(chalk.gray('  No file changes in this session yet.\n'));
+      return;
+    }
+
+    console.log(chalk.blue('\n  Checkpoints (newest last):'));
+    for (const checkpoint of checkpoints) {
+      const time = checkpoint.createdAt.toLocaleTimeString();
+      const files = checkpoint.files.map(f => f.path).join(', ');
+      console.log(chalk.gray(`    ${checkpoint.id}. ${time}  ${checkpoint.label}`));
+      console.log(chalk.gray(`       ${files}`));
+    }
+    console.log(chalk.gray('\n  /checkpoints restore <n> reverts that turn and every later one.'));
+    console.log(chalk.gray('  Changes made by shell commands are not tracked.\n'));
+  }
+
+  private reportRestore(result: RestoreResult): void {
+    for (const path of result.restored) console.log(chalk.gray(`    restored ${path}`));
+    for (const path of result.deleted) console.log(chalk.gray(`    deleted  ${path}`));
+    if (result.modifiedSince.length > 0) {
+      console.log(chalk.yellow(`  Note: ${result.modifiedSince.join(', ')} had been changed since Aingel wrote them; those edits were reverted too.`));
+    }
+    console.log('');
+
+    const files = [...result.restored, ...result.deleted];
+    if (files.length > 0) {
+      this.pendingNotes.push(
+        `[Note: the user reverted your earlier changes to ${files.join(', ')}. Re-read files before editing them again.]`
+      );
+    }
+  }
+
+  /** /jobs: background commands the model started. */
+  private async handleJobs(args: string[]): Promise<void> {
+    const [sub, ref] = args;
+
+    if (sub === 'stop') {
+      const job = ref ? this.jobs.get(parseInt(ref, 10)) : undefined;
+      if (!job) {
+        console.log(chalk.red(ref ? `  No background job ${ref}\n` : '  Usage: /jobs stop <number>\n'));
+        return;
+      }
+      await this.jobs.stop(job.id);
+      console.log(chalk.green(`  ✓ Stopped job ${job.id}: ${job.command}\n`));
+      // The model may still think it's running
+      this.pendingNotes.push(`(The user stopped background job ${job.id}: ${job.command})`);
+      return;
+    }
+
+    if (sub) {
+      const job = this.jobs.get(parseInt(sub, 10));
+      if (!job) {
+        console.log(chalk.red(`  No background job ${sub}\n`));
+        return;
+      }
+      // Peek without marking the output as read by the model
+      const output = this.jobs.peek(job.id, 40);
+      console.log(chalk.blue(`  Job ${job.id} [${describeJobStatus(job)}]: ${job.command}`));
+      console.log(chalk.gray(output ? `    ${output.split('\n').join('\n    ')}\n` : '    (no output)\n'));
+      return;
+    }
+
+    const jobs = this.jobs.list();
+    if (jobs.length === 0) {
+      console.log(chalk.gray('  No background jobs.\n'));
+      return;
+    }
+    console.log(chalk.blue('\n  Background jobs:'));
+    for (const job of jobs) {
+      const started = job.startedAt.toLocaleTimeString();
+      console.log(chalk.gray(`    ${job.id}. [${describeJobStatus(job)}] ${job.command}  (pid ${job.pid ?? '?'}, started ${started})`));
+    }
+    console.log(chalk.gray('\n  /jobs <n> shows recent output; /jobs stop <n> stops one.\n'));
+  }
+
+  /**
+   * Files Aingel changed this session that git still shows as changed, or
+   * null (after saying why) outside a git repository.
+   */
+  private async getAssistantChanges(): Promise<string[] | null> {
+    if (!(await getGitState(this.projectRoot))) {
+      console.log(chalk.gray('  Not a git repository. /checkpoints lists the files Aingel changed.\n'));
+      return null;
+    }
+    const { tracked, untracked } = await listChangedFiles(this.projectRoot);
+    const changed = new Set([...tracked, ...untracked]);
+    return this.checkpoints.changedPaths().filter(path => changed.has(path));
+  }
+
+  /** /diff: Aingel's uncommitted changes, or with "all" every uncommitted change. */
+  private async showDiff(all: boolean): Promise<void> {
+    const paths = await this.getAssistantChanges();
+    if (!paths) return;
+
+    const diff = await getWorkingDiff(this.projectRoot, all ? undefined : paths);
+    if (!diff) {
+      console.log(chalk.gray(all
+        ? '  No uncommitted changes.\n'
+        : '  No uncommitted changes from Aingel this session. /diff all shows every uncommitted change.\n'));
+      return;
+    }
+    console.log(`\n  ${colorizeDiff(diff, 500).split('\n').join('\n  ')}\n`);
+    if (!all) {
+      console.log(chalk.gray('  Changes made by shell commands are not included; /diff all shows everything.\n'));
+    }
+  }
+
+  /**
+   * /commit: commit what's staged if anything is, otherwise Aingel's changes
+   * (or, with "all", every change), with a message the model drafts and the
+   * user approves.
+   */
+  private async handleCommit(all: boolean): Promise<void> {
+    const assistantPaths = await this.getAssistantChanges();
+    if (!assistantPaths) return;
+
+    let diff = all ? '' : await getStagedDiff(this.projectRoot);
+    let paths: string[] | undefined;
+    let what = 'staged changes';
+    if (!diff) {
+      paths = all ? ['.'] : assistantPaths;
+      diff = await getWorkingDiff(this.projectRoot, all ? undefined : paths);
+      what = all
+        ? 'all uncommitted changes'
+        : `${paths.length} file${paths.length === 1 ? '' : 's'} changed by Aingel (${paths.join(', ')})`;
+    }
+    if (!diff) {
+      console.log(chalk.gray(all
+        ? '  Nothing to commit.\n'
+        : '  Nothing staged and no uncommitted changes from Aingel. /commit all commits every change.\n'));
+      return;
+    }
+
+    console.log(chalk.gray(`  Drafting a commit message for ${what}...`));
+    let message: string;
+    try {
+      message = await draftCommitMessage(this.client, this.projectRoot, diff);
+    } catch (error) {
+      console.log(chalk.red(`  Could not draft a message: ${(error as Error).message}\n`));
+      return;
+    }
+
+    console.log(`\n  ${message.split('\n').join('\n  ')}\n`);
+    const answer = (await this.ask('  Commit with this message? (y/N, or e to write your own): ')).toLowerCase();
+    if (answer === 'e') {
+      message = await this.ask('  Message: ');
+    } else if (answer !== 'y') {
+      console.log(chalk.gray('  Not committed.\n'));
+      return;
+    }
+    if (!message) {
+      console.log(chalk.gray('  Empty message; not committed.\n'));
+      return;
+    }
+
+    try {
+      const hash = await commitChanges(this.projectRoot, message, paths);
+      const subject = message.split('\n')[0];
+      console.log(chalk.green(`  ✓ Committed ${hash}: ${subject}\n`));
+      this.pendingNotes.push(`(The user committed ${what} as ${hash}: ${subject})`);
+    } catch (error) {
+      console.log(chalk.red(`  Commit failed: ${(error as Error).message}\n`));
+    }
+    await this.refreshGitState();
+  }
+
+  private async ask(question: string): Promise<string> {
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+    return new Promise<string>((resolve) => {
+      rl.question(chalk.cyan(question), (answer) => {
+        rl.close();
+        resolve(answer.trim());
+      });
+    });
+  }
+
+  private async handlePermissions(args: string[]): Promise<void> {
+    const [sub, ...rest] = args;
+    const usage = chalk.gray(`  Usage:
+    /permissions                                    - List rules
+    /permissions allow|deny|ask <tool> [target]     - Add a rule for this project
+    /permissions allow|deny|ask <tool> [target] --global
+    /permissions remove <number>
+
+  <tool> is a tool name, "write" (any file change) or "*".
+  [target] is a path glob for file tools or a command prefix for run_command.
+`);
+
+    if (!sub) {
+      const rules = await loadPermissionRules(this.projectRoot);
+      console.log(chalk.blue(`\n  Project rules (${this.projectRoot}):`));
+      if (rules.project.length === 0) console.log(chalk.gray('    (none)'));
+      rules.project.forEach((rule, i) => console.log(chalk.gray(`    ${i + 1}. ${describeRule(rule)}`)));
+      console.log(chalk.blue('  Global rules:'));
+      if (rules.global.length === 0) console.log(chalk.gray('    (none)'));
+      rules.global.forEach((rule, i) => {
+        console.log(chalk.gray(`    ${rules.project.length + i + 1}. ${describeRule(rule)}`));
+      });
+      console.log(chalk.gray('\n  Without a matching rule, read-only tools run and file changes and commands ask.'));
+      console.log(chalk.gray('  When rules conflict, deny wins over ask, and ask over allow.\n'));
+      console.log(usage);
+      return;
+    }
+
+    if (sub === 'remove') {
+      const num = parseInt(rest[0], 10);
+      const rules = await loadPermissionRules(this.projectRoot);
+      if (isNaN(num) || num < 1 || num > rules.project.length + rules.global.length) {
+        console.log(chalk.red(`  No rule numbered ${rest[0] ?? ''}. Run /permissions to see the list.\n`));
+        return;
+      }
+      const removed = num <= rules.project.length
+        ? await removePermissionRule(num - 1, 'project', this.projectRoot)
+        : await removePermissionRule(num - rules.project.length - 1, 'global', this.projectRoot);
+      if (removed) {
+        console.log(chalk.green(`  ✓ Removed rule: ${describeRule(removed)}\n`));
+      }
+      return;
+    }
+
+    if (sub !== 'allow' && sub !== 'deny' && sub !== 'ask') {
+      console.log(chalk.red(`  Unknown subcommand: ${sub}\n`));
+      console.log(usage);
+      return;
+    }
+
+    const global = rest.includes('--global');
+    const [tool, ...targetWords] = rest.filter(word => word !== '--global');
+    const knownTools = [...toolDefinitions.map(t => t.function.name), 'write', '*'];
+    if (!tool || !knownTools.includes(tool)) {
+      console.log(chalk.red(`  Unknown tool: ${tool ?? ''}. Expected one of: ${knownTools.join(', ')}\n`));
+      return;
+    }
+
+    const target = targetWords.join(' ').trim();
+    const rule = {
+      tool,
+      action: sub as PermissionAction,
+      ...(target ? (tool === 'run_command' ? { command: target } : { path: target }) : {}),
+    };
+    await addPermissionRule(rule, global ? 'global' : 'project', this.projectRoot);
+    console.log(chalk.green(`  ✓ Added ${global ? 'global' : 'project'} rule: ${describeRule(rule)}\n`));
+  }
+
+  private showStats(): void {
+    const totals = this.usage.getTotals();
+    if (totals.length === 0) {
+      console.log(chalk.gray('  No responses yet this session.\n'));
+      return;
+    }
+
+    console.log(chalk.blue('  Usage this session:'));
+    for (const total of totals) {
+      const ttft = total.averageTimeToFirstTokenMs !== null ? `${(total.averageTimeToFirstTokenMs / 1000).toFixed(1)}s` : '-';
+      const speed = total.averageTokensPerSecond !== null ? `${total.averageTokensPerSecond.toFixed(1)} tok/s` : '-';
+      console.log(chalk.white(`    ${total.model}`));
+      console.log(chalk.gray(`      ${total.requests} request${total.requests === 1 ? '' : 's'}, ${total.promptTokens.toLocaleString()} tokens in, ${total.completionTokens.toLocaleString()} out`));
+      console.log(chalk.gray(`      avg ${ttft} to first token, ${speed}`));
+      if (total.estimatedRequests > 0) {
+        console.log(chalk.gray(`      (${total.estimatedRequests} of ${total.requests} estimated locally; the server didn't report usage)`));
+      }
+    }
+    console.log('');
+  }
+
+  /** Pick up the context limit and tool-call format for the current model. */
+  private async refreshModelSettings(): Promise<void> {
+    const config = await loadEffectiveConfig(this.projectRoot);
+    this.compactThreshold = config.compactThreshold;
+    this.showThinking = config.showThinking;
+    this.renderMarkdown = config.renderMarkdown;
+    this.contextLimit = await resolveContextLimit(this.client, config);
+    this.client.setToolCallFormat(resolveToolCallFormat(config, this.client.getModel()));
+    this.client.setGenerationParams(
+      resolveGenerationParams(config, this.client.getServerName(), this.client.getModel(), this.generationOverrides)
+    );
+  }
+
+  /**
+   * /set: adjust sampling parameters for the rest of the session. Changes sit
+   * on top of the config's server and model settings and aren't saved.
+   */
+  private async handleSet(args: string[]): Promise<void> {
+    const [name, ...values] = args;
+    const config = await loadEffectiveConfig(this.projectRoot);
+    const presets = getPresets(config);
+
+    if (!name) {
+      console.log(chalk.blue(`  Parameters: ${formatGenerationParams(this.client.getGenerationParams())}`));
+      const { preset, ...changed } = this.generationOverrides;
+      if (preset) console.log(chalk.gray(`  Preset this session: ${preset}`));
+      if (Object.keys(changed).length > 0) {
+        console.log(chalk.gray(`  Set this session: ${formatGenerationParams(changed)}`));
+      }
+      console.log(chalk.gray(`  Usage: /set <${getParamNames().join('|')}> <value|default>`));
+      console.log(chalk.gray(`  Presets: ${Object.keys(presets).join(', ')}\n`));
+      return;
+    }
+
+    let done: string;
+    if (name === 'reset') {
+      this.generationOverrides = {};
+      done = 'Parameters reset';
+    } else if (name === 'preset') {
+      if (!values[0] || !presets[values[0]]) {
+        console.log(chalk.red(`  Usage: /set preset <${Object.keys(presets).join('|')}>\n`));
+        return;
+      }
+      // A preset replaces earlier /set changes rather than merging with them
+      this.generationOverrides = { preset: values[0] };
+      done = `Using preset ${values[0]}`;
+    } else {
+      const key = findParamKey(name);
+      if (!key) {
+        console.log(chalk.red(`  Unknown parameter: ${name}. Parameters: ${getParamNames().join(', ')}\n`));
+        return;
+      }
+      const overrides: GenerationSettings = { ...this.generationOverrides };
+      if (values[0] === 'default') {
+        delete overrides[key];
+      } else {
+        try {
+          (overrides as Record<string, unknown>)[key] = parseParamValue(key, values);
+        } catch (error) {
+          console.log(chalk.red(`  ${(error as Error).message}\n`));
+          return;
+        }
+      }
+      this.generationOverrides = overrides;
+      done = `Updated ${getParamName(key)}`;
+    }
+
+    const params = resolveGenerationParams(
+      config, this.client.getServerName(), this.client.getModel(), this.generationOverrides
+    );
+    this.client.setGenerationParams(params);
+    console.log(chalk.green(`  ✓ ${done}: ${formatGenerationParams(params)}\n`));
+  }
+
+  private async handleToolFormat(format: string | undefined): Promise<void> {
+    const model = this.client.getModel();
+    if (!format) {
+      console.log(chalk.blue(`  Tool-call format for ${model}: ${this.client.getToolCallFormat()}`));
+      console.log(chalk.gray(`  Formats: ${TOOL_CALL_FORMATS.join(', ')}\n`));
+      return;
+    }
+    if (!model || !TOOL_CALL_FORMATS.includes(format as ToolCallFormat)) {
+      console.log(chalk.red(`  Usage: /toolformat <${TOOL_CALL_FORMATS.join('|')}>\n`));
+      return;
+    }
+
+    const config = await loadConfig();
+    config.toolCallFormats = { ...config.toolCallFormats, [model]: format as ToolCallFormat };
+    await saveConfig(config);
+    this.client.setToolCallFormat(format as ToolCallFormat);
+    console.log(chalk.green(`  ✓ ${model} now uses the ${format} tool-call format\n`));
+  }
+
+  /**
+   * Compact the history when it nears the context limit (or always, when
+   * forced by /compact). Failures are reported and the history left as is.
+   */
+  private async compact(force: boolean): Promise<void> {
+    const target = Math.floor(this.contextLimit.tokens * this.compactThreshold);
+    const used = estimateRequestTokens(this.history, toolDefinitions);
+    if (!force && used <= target) return;
+
+    if (!force) {
+      console.log(chalk.yellow(`\n  Context is ~${used.toLocaleString()} / ${this.contextLimit.tokens.toLocaleString()} tokens, compacting...`));
+    } else {
+      console.log(chalk.gray('  Compacting conversation...'));
+    }
+
+    try {
+      const result = await compactHistory(
+        this.client,
+        this.history,
+        this.contextLimit.tokens,
+        target,
+        toolDefinitions,
+        force
+      );
+      this.history = result.messages;
+
+      const details: string[] = [];
+      if (result.summarizedCount > 0) details.push(`summarized ${result.summarizedCount} messages`);
+      if (result.truncatedCount > 0) details.push(`truncated ${result.truncatedCount} tool outputs`);
+      const what = details.length > 0 ? details.join(', ') : 'nothing to compact';
+      console.log(chalk.gray(`  ✓ ${what}: ~${result.tokensBefore.toLocaleString()} → ~${result.tokensAfter.toLocaleString()} tokens\n`));
+    } catch (error) {
+      const err = error as Error;
+      console.log(chalk.red(`  Compaction failed: ${err.message}\n`));
+    }
+  }
+
+  /**
+   * Save the conversation if it has any user messages. Returns whether
+   * anything was written. Failures are reported but never interrupt the turn.
+   */
+  private async autosave(): Promise<boolean> {
+    const messages = this.history.filter(m => m.role !== 'system');
+    const firstUser = messages.find(m => m.role === 'user');
+    if (!firstUser) return false;
+
+    if (!this.session.title) {
+      const text = (firstUser.content || '').replace(/\s+/g, ' ').trim();
+      this.session.title = text.length > 60 ? text.slice(0, 57) + '...' : text;
+    }
+    this.session.model = this.client.getModel();
+    // The system prompt is rebuilt on resume, so it isn't stored
+    this.session.messages = messages;
+
+    try {
+      await saveSession(this.session);
+      return true;
+    } catch (error) {
+      const err = error as Error;
+      console.log(chalk.gray(`  (could not save session: ${err.message})`));
+      return false;
+    }
+  }
+
+  private loadSession(session: Session): void {
+    this.session = session;
+    this.usage.reset();
+    this.history = [
+      { role: 'system', content: this.getSystemPrompt() },
+      ...repairHistory(session.messages.filter(m => m.role !== 'system')),
+    ];
+
+    const userCount = session.messages.filter(m => m.role === 'user').length;
+    console.log(chalk.green(`\n  ✓ Resumed session ${session.id}: ${session.title || '(untitled)'}`));
+    console.log(chalk.gray(`    ${userCount} message${userCount === 1 ? '' : 's'} from you, last active ${new Date(session.updatedAt).toLocaleString()}`));
+    if (session.model && session.model !== this.client.getModel()) {
+      console.log(chalk.gray(`    (originally with ${session.model}, continuing with ${this.client.getModel()})`));
+    }
+
+    const lastAssistant = [...session.messages].reverse().find(m => m.role === 'assistant' && m.content);
+    if (lastAssistant?.content) {
+      const preview = lastAssistant.content.length > 200
+        ? lastAssistant.content.slice(0, 200) + '...'
+        : lastAssistant.content;
+      console.log(chalk.gray(`    Last reply: ${preview.split('\n').join('\n    ')}`));
+    }
+    console.log('');
+  }
+
+  private async listSavedSessions(): Promise<void> {
+    const sessions = await listSessions(this.projectRoot);
+    if (sessions.length === 0) {
+      console.log(chalk.gray('  No saved sessions for this folder.\n'));
+      return;
+    }
+
+    console.log(chalk.blue('\n  Saved sessions:'));
+    sessions.slice(0, 20).forEach((session, i) => {
+      const isCurrent = session.id === this.session.id ? chalk.green(' (current)') : '';
+      const when = new Date(session.updatedAt).toLocaleString();
+      console.log(chalk.gray(`    ${i + 1}. ${session.id}  ${when}  ${session.title || '(untitled)'}${isCurrent}`));
+    });
+    if (sessions.length > 20) {
+      console.log(chalk.gray(`    ... and ${sessions.length - 20} older`));
+    }
+    console.log(chalk.gray('\n  Use /resume <number or id> to continue one.\n'));
+  }
+
+  private async listServers(): Promise<void> {
+    const config = await loadConfig();
+    if (config.servers.length === 0) {
+      console.log(chalk.gray(`  No servers configured; connected to ${this.client.getUrl()}. Use /server add to add one.\n`));
+      return;
+    }
+
+    console.log(chalk.blue('\n  Servers:'));
+    config.servers.forEach((server, i) => {
+      const tags = [
+        server.name === this.client.getServerName() ? chalk.green(' (current)') : '',
+        server.name === config.defaultServer ? chalk.cyan(' (default)') : '',
+      ].join('');
+      console.log(chalk.gray(`    ${i + 1}. ${describeServer(server)}${tags}`));
+    });
+    console.log(chalk.gray('\n  Switch with /server <name or number>.\n'));
+  }
+
+  private async handleServer(args: string[]): Promise<void> {
+    const [sub, name] = args;
+
+    if (!sub) {
+      console.log(chalk.blue(`  Current server: ${this.client.getServerName()} (${this.client.getUrl()})`));
+      console.log(chalk.gray(`  Model: ${this.client.getModel()}\n`));
+      return;
+    }
+
+    if (sub === 'add') {
+      const server = await promptForNewServer();
+      await addServer(server);
+      console.log(chalk.green(`  ✓ Added server ${describeServer(server)}`));
+      const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+      const answer = await new Promise<string>((resolve) => {
+        rl.question(chalk.cyan('  Switch to it now? (y/N): '), (a) => {
+          rl.close();
+          resolve(a.trim().toLowerCase());
+        });
+      });
+      if (answer === 'y') {
+        await this.switchServer(server);
+      } else {
+        console.log('');
+      }
+      return;
+    }
+
+    const config = await loadConfig();
+
+    if (sub === 'remove' || sub === 'default') {
+      const server = name ? findServer(config, name) : undefined;
+      if (!server) {
+        console.log(chalk.red(name ? `  Server not found: ${name}\n` : `  Usage: /server ${sub} <name>\n`));
+        return;
+      }
+      if (sub === 'remove') {
+        await removeServer(server.name);
+        const note = server.name === this.client.getServerName() ? ' (still connected until you switch)' : '';
+        console.log(chalk.green(`  ✓ Removed server ${server.name}${note}\n`));
+      } else {
+        await setDefaultServer(server.name);
+        console.log(chalk.green(`  ✓ ${server.name} is now the default server\n`));
+      }
+      return;
+    }
+
+    const server = findServer(config, sub);
+    if (!server) {
+      console.log(chalk.red(`  Server not found: ${sub}. Use /servers to list them.\n`));
+      return;
+    }
+    await this.switchServer(server);
+  }
+
+  /**
+   * Connect to another server, keeping the conversation. Stays on the same
+   * model if the new server has it (or another build of it), otherwise asks.
+   */
+  private async switchServer(server: LLMServer): Promise<void> {
+    if (server.name === this.client.getServerName()) {
+      console.log(chalk.gray('  Already using that server.\n'));
+      return;
+    }
+
+    let client: LLMClient;
+    let models: Model[];
+    try {
+      client = createClient(server, await loadEffectiveConfig(this.projectRoot));
+      console.log(chalk.gray(`  Connecting to ${client.getUrl()}...`));
+      models = await client.listModels();
+    } catch (error) {
+      const err = error as Error;
+      console.log(chalk.red(`  Could not connect to ${server.name}: ${err.message}\n`));
+      return;
+    }
+    if (models.length === 0) {
+      console.log(chalk.red(`  No models loaded on ${server.name}; staying on ${this.client.getServerName()}.\n`));
+      return;
+    }
+
+    const currentModel = this.client.getModel();
+    let model = currentModel ? findCompatibleModel(models, currentModel) : undefined;
+    if (!model && models.length === 1) {
+      model = models[0].id;
+    } else if (!model) {
+      console.log(chalk.blue(`\n  ${server.name} doesn't have ${currentModel}. Available models:`));
+      models.forEach((m, i) => console.log(chalk.gray(`    ${i + 1}. ${m.id}`)));
+      const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+      const input = await new Promise<string>((resolve) => {
+        rl.question(chalk.cyan('  Select model (number or name, default: 1): '), (answer) => {
+          rl.close();
+          resolve(answer.trim());
+        });
+      });
+      const num = parseInt(input, 10);
+      model = !isNaN(num) && num >= 1 && num <= models.length
+        ? models[num - 1].id
+        : models.find(m => input && m.id.toLowerCase().includes(input.toLowerCase()))?.id ?? models[0].id;
+    }
+
+    client.setModel(model);
+    this.client = client;
+    await this.refreshModelSettings();
+    console.log(chalk.green(`  ✓ Switched to ${server.name} (${model}); conversation kept\n`));
+  }
+
   private async listAndSelectModel(): Promise<void> {
     try {
       const models = await this.client.listModels();
@@ -233,6 +1314,7 @@ Always use relative paths from the project root. Be concise and helpful.`;
 
       if (selectedModel && selectedModel !== currentModel) {
         this.client.setModel(selectedModel);
+        await this.refreshModelSettings();
         console.log(chalk.green(`  ✓ Switched to: ${selectedModel}\n`));
       } else if (!selectedModel) {
         console.log(chalk.red(`  Model not found: ${input}\n`));
@@ -246,6 +1328,6 @@ Always use relative paths from the project root. Be concise and helpful.`;
   }
 
   close(): void {
-    this.rl?.close();
+    this.input?.close();
   }
 }
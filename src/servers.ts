@@ -0,0 +1,193 @@
+import * as readline from 'readline';
+import chalk from 'chalk';
+import { loadConfig, addServer, removeServer, setDefaultServer, getConfigPath, Config, LLMServer } from './config.js';
+import { ProviderType, PROVIDER_TYPES, DEFAULT_PORTS, getServerUrl } from './providers.js';
+
+async function ask(question: string): Promise<string> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  return new Promise((resolve) => {
+    rl.question(question, (answer) => {
+      rl.close();
+      resolve(answer.trim());
+    });
+  });
+}
+
+// A host may also be given as a full URL, e.g. https://llm.example.com/v1
+export function serverFromHost(name: string, host: string, port: number): LLMServer {
+  if (!/^https?:\/\//.test(host)) {
+    return { name, host, port };
+  }
+  const url = new URL(host);
+  return {
+    name,
+    host: url.hostname,
+    port: url.port ? parseInt(url.port, 10) : url.protocol === 'https:' ? 443 : 80,
+    baseUrl: host,
+  };
+}
+
+export async function promptForNewServer(): Promise<LLMServer> {
+  console.log(chalk.yellow('\n  Add a new LLM server\n'));
+
+  const name = await ask('  Server name (e.g., "llama", "mistral"): ');
+  const typeInput = await ask(`  Type (${PROVIDER_TYPES.join(', ')}; default: lmstudio): `);
+  const type = PROVIDER_TYPES.includes(typeInput as ProviderType) ? (typeInput as ProviderType) : 'lmstudio';
+  const hostInput = await ask('  Host IP or URL (e.g., 192.168.1.50, localhost or https://llm.example.com): ');
+
+  const server = serverFromHost(name || 'default', hostInput || 'localhost', DEFAULT_PORTS[type]);
+  server.type = type;
+  if (!server.baseUrl) {
+    const portInput = await ask(`  Port (default: ${DEFAULT_PORTS[type]}): `);
+    if (portInput) server.port = parseInt(portInput, 10);
+  }
+
+  const keyEnv = await ask('  Environment variable with an API key (optional): ');
+  if (keyEnv) server.apiKeyEnv = keyEnv;
+
+  return server;
+}
+
+/** "name - http://host:port (type)", as shown in server lists. */
+export function describeServer(server: LLMServer): string {
+  const type = server.type && server.type !== 'lmstudio' ? ` (${server.type})` : '';
+  return `${server.name} - ${getServerUrl(server)}${type}`;
+}
+
+/** Find a configured server by list number (1-based) or case-insensitive name. */
+export function findServer(config: Config, ref: string): LLMServer | undefined {
+  const num = parseInt(ref, 10);
+  if (String(num) === ref && num >= 1 && num <= config.servers.length) {
+    return config.servers[num - 1];
+  }
+  return config.servers.find(s => s.name.toLowerCase() === ref.toLowerCase());
+}
+
+const SERVERS_USAGE = `Usage:
+  aingel servers list
+  aingel servers add <name> <host or url> [--port <n>] [--type <${PROVIDER_TYPES.join('|')}>]
+                     [--api-key-env <VAR>] [--header "Name: value"] [--default]
+  aingel servers remove <name>
+  aingel servers set-default <name>`;
+
+function parseAddArgs(args: string[]): LLMServer {
+  const [name, host] = args;
+  if (!name || !host || name.startsWith('-') || host.startsWith('-')) {
+    throw new Error('add needs a name and a host or URL');
+  }
+
+  let type: ProviderType = 'lmstudio';
+  let port: number | undefined;
+  let apiKeyEnv: string | undefined;
+  const headers: Record<string, string> = {};
+
+  for (let i = 2; i < args.length; i++) {
+    const arg = args[i];
+    const value = args[i + 1];
+    if (arg === '--default') continue;
+    if (value === undefined) {
+      throw new Error(`${arg} needs a value`);
+    }
+    if (arg === '--type') {
+      if (!PROVIDER_TYPES.includes(value as ProviderType)) {
+        throw new Error(`--type must be one of ${PROVIDER_TYPES.join(', ')}`);
+      }
+      type = value as ProviderType;
+    } else if (arg === '--port') {
+      port = parseInt(value, 10);
+      if (isNaN(port)) throw new Error(`--port must be a number, got "${value}"`);
+    } else if (arg === '--api-key-env') {
+      apiKeyEnv = value;
+    } else if (arg === '--header') {
+      const colon = value.indexOf(':');
+      if (colon <= 0) throw new Error(`--header must look like "Name: value", got "${value}"`);
+      headers[value.slice(0, colon).trim()] = value.slice(colon + 1).trim();
+    } else {
+      throw new Error(`unknown option ${arg}`);
+    }
+    i++;
+  }
+
+  const server = serverFromHost(name, host, port ?? DEFAULT_PORTS[type]);
+  if (port !== undefined && !server.baseUrl) server.port = port;
+  if (type !== 'lmstudio') server.type = type;
+  if (apiKeyEnv) server.apiKeyEnv = apiKeyEnv;
+  if (Object.keys(headers).length > 0) server.headers = headers;
+  return server;
+}
+
+/**
+ * `aingel servers ...`: manage configured servers without starting a session,
+ * so team setup can be scripted. Returns the process exit code.
+ */
+export async function runServersCommand(args: string[]): Promise<number> {
+  const [sub = 'list', ...rest] = args;
+  const fail = (message: string): number => {
+    process.stderr.write(chalk.red(`aingel: ${message}\n`));
+    return 2;
+  };
+
+  const config = await loadConfig();
+
+  switch (sub) {
+    case 'list': {
+      if (config.servers.length === 0) {
+        console.log(`No servers configured (${getConfigPath()}).`);
+        return 0;
+      }
+      config.servers.forEach((server, i) => {
+        const isDefault = server.name === config.defaultServer ? ' (default)' : '';
+        console.log(`${i + 1}. ${describeServer(server)}${isDefault}`);
+      });
+      return 0;
+    }
+
+    case 'add': {
+      let server: LLMServer;
+      try {
+        server = parseAddArgs(rest);
+      } catch (error) {
+        return fail(`${(error as Error).message}\n${SERVERS_USAGE}`);
+      }
+      const replaced = config.servers.some(s => s.name === server.name);
+      await addServer(server);
+      if (rest.includes('--default') || config.servers.length === 0) {
+        await setDefaultServer(server.name);
+      }
+      console.log(`${replaced ? 'Updated' : 'Added'} server ${describeServer(server)}`);
+      return 0;
+    }
+
+    case 'remove': {
+      const server = rest[0] ? findServer(config, rest[0]) : undefined;
+      if (!server) {
+        return fail(rest[0] ? `server not found: ${rest[0]}` : `remove needs a server name\n${SERVERS_USAGE}`);
+      }
+      await removeServer(server.name);
+      console.log(`Removed server ${server.name}`);
+      return 0;
+    }
+
+    case 'set-default': {
+      const server = rest[0] ? findServer(config, rest[0]) : undefined;
+      if (!server) {
+        return fail(rest[0] ? `server not found: ${rest[0]}` : `set-default needs a server name\n${SERVERS_USAGE}`);
+      }
+      await setDefaultServer(server.name);
+      console.log(`Default server is now ${server.name}`);
+      return 0;
+    }
+
+    case 'help':
+    case '--help':
+      console.log(SERVERS_USAGE);
+      return 0;
+
+    default:
+      return fail(`unknown servers command: ${sub}\n${SERVERS_USAGE}`);
+  }
+}
@@ -0,0 +1,145 @@
+import { homedir } from 'os';
+import { join } from 'path';
+import { readFile, writeFile, readdir, mkdir } from 'fs/promises';
+import { existsSync } from 'fs';
+import { createHash, randomBytes } from 'crypto';
+import type { ChatMessage } from './client.js';
+import { stripReasoning } from './reasoning.js';
+
+export interface Session {
+  id: string;
+  projectRoot: string;
+  title: string;
+  model: string | null;
+  createdAt: string;
+  updatedAt: string;
+  messages: ChatMessage[];
+}
+
+const SESSIONS_DIR = join(homedir(), '.aingel', 'sessions');
+
+/** A short, stable key for a project folder, for per-project files under ~/.aingel. */
+export function getProjectKey(projectRoot: string): string {
+  return createHash('sha1').update(projectRoot).digest('hex').slice(0, 12);
+}
+
+function getProjectSessionsDir(projectRoot: string): string {
+  return join(SESSIONS_DIR, getProjectKey(projectRoot));
+}
+
+export function createSessionId(): string {
+  // e.g. 20261019-143012-a1b2 - sortable and short enough to type
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+  return `${stamp}-${randomBytes(2).toString('hex')}`;
+}
+
+export function createSession(projectRoot: string, model: string | null): Session {
+  const now = new Date().toISOString();
+  return {
+    id: createSessionId(),
+    projectRoot,
+    title: '',
+    model,
+    createdAt: now,
+    updatedAt: now,
+    messages: [],
+  };
+}
+
+/**
+ * Make a history safe to send again: every assistant tool call must be
+ * answered by a tool message, otherwise the server rejects the request. This
+ * happens when a session was saved mid-turn (crash, Ctrl+C). Reasoning left
+ * in replies by older versions is stripped to save context.
+ */
+export function repairHistory(messages: ChatMessage[]): ChatMessage[] {
+  const repaired: ChatMessage[] = [];
+
+  for (let i = 0; i < messages.length; i++) {
+    let message = messages[i];
+    if (message.role === 'assistant' && message.content?.includes('</think>')) {
+      message = { ...message, content: stripReasoning(message.content) };
+    }
+    repaired.push(message);
+    if (message.role !== 'assistant' || !message.tool_calls?.length) continue;
+
+    const answered = new Set<string>();
+    while (messages[i + 1]?.role === 'tool') {
+      const toolMessage = messages[++i];
+      repaired.push(toolMessage);
+      if (toolMessage.tool_call_id) answered.add(toolMessage.tool_call_id);
+    }
+
+    for (const toolCall of message.tool_calls) {
+      if (!answered.has(toolCall.id)) {
+        repaired.push({
+          role: 'tool',
+          content: 'Error: This tool call was interrupted before it completed.',
+          tool_call_id: toolCall.id,
+        });
+      }
+    }
+  }
+
+  return repaired;
+}
+
+export async function saveSession(session: Session): Promise<void> {
+  const dir = getProjectSessionsDir(session.projectRoot);
+  if (!existsSync(dir)) {
+    await mkdir(dir, { recursive: true });
+  }
+  session.updatedAt = new Date().toISOString();
+  await writeFile(join(dir, `${session.id}.json`), JSON.stringify(session, null, 2), 'utf-8');
+}
+
+/**
+ * List saved sessions for a project, most recently updated first.
+ */
+export async function listSessions(projectRoot: string): Promise<Session[]> {
+  const dir = getProjectSessionsDir(projectRoot);
+  if (!existsSync(dir)) {
+    return [];
+  }
+
+  const sessions: Session[] = [];
+  for (const file of await readdir(dir)) {
+    if (!file.endsWith('.json')) continue;
+    try {
+      const data = await readFile(join(dir, file), 'utf-8');
+      sessions.push(JSON.parse(data) as Session);
+    } catch {
+      // Skip unreadable or partially written session files
+    }
+  }
+
+  return sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Find a session by id, unique id prefix, or 1-based position in the list
+ * shown by /sessions.
+ */
+export async function findSession(projectRoot: string, ref: string): Promise<Session | null> {
+  const sessions = await listSessions(projectRoot);
+
+  const num = parseInt(ref, 10);
+  if (String(num) === ref && num >= 1 && num <= sessions.length) {
+    return sessions[num - 1];
+  }
+
+  const exact = sessions.find(s => s.id === ref);
+  if (exact) return exact;
+
+  const matches = sessions.filter(s => s.id.startsWith(ref));
+  return matches.length === 1 ? matches[0] : null;
+}
+
+export async function getLatestSession(projectRoot: string): Promise<Session | null> {
+  const sessions = await listSessions(projectRoot);
+  return sessions[0] ?? null;
+}
+
+export function getSessionsDir(): string {
+  return SESSIONS_DIR;
+}
@@ -0,0 +1,255 @@
+import { spawn } from 'child_process';
+import { createWriteStream, mkdirSync, readdirSync, rmSync, writeFileSync, WriteStream } from 'fs';
+import { join } from 'path';
+
+export interface CommandOutput {
+  // stdout and stderr interleaved as they arrived. When the output was too
+  // long only its start (head) and end (tail) are kept, and the full text is
+  // saved to logPath; otherwise head holds all of it and tail is empty
+  head: string;
+  tail: string;
+  truncated: boolean;
+  totalLines: number;
+  logPath?: string;
+  // Set instead of logPath when the log couldn't be written (read-only
+  // project, full disk)
+  logError?: string;
+  code: number | null;
+  timedOut: boolean;
+  interrupted: boolean;
+  overflowed: boolean;
+}
+
+export interface RunCommandOptions {
+  cwd: string;
+  timeoutMs: number;
+  // The command is stopped once it has written this many characters
+  maxOutput: number;
+  // Characters of output kept from the start and end when it's truncated
+  headLength: number;
+  tailLength: number;
+  // Where to save the full output if it's truncated
+  logDir: string;
+  signal?: AbortSignal;
+  // Called with each chunk of output as it arrives, for live display
+  onOutput?: (text: string) => void;
+}
+
+type ExitStatus = Pick<CommandOutput, 'code' | 'timedOut' | 'interrupted' | 'overflowed'>;
+
+const MAX_LOGS = 20;
+// How long output may keep coming after the shell exits
+const EXIT_GRACE_MS = 1000;
+
+/**
+ * Keeps the start and end of a command's output in memory. Once the output
+ * outgrows them, everything is also written to a log file.
+ */
+class OutputCollector {
+  private head = '';
+  private tail = '';
+  private length = 0;
+  private newlines = 0;
+  private log: WriteStream | null = null;
+  private logPath: string;
+  private logError: string | null = null;
+  // Output has outgrown head and tail, whether or not the log could be opened
+  private spilled = false;
+
+  constructor(
+    private readonly headLength: number,
+    private readonly tailLength: number,
+    private readonly logDir: string
+  ) {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    this.logPath = join(logDir, `command-${stamp}.log`);
+  }
+
+  append(text: string): void {
+    this.length += text.length;
+    this.newlines += text.split('\n').length - 1;
+
+    if (this.log) {
+      this.log.write(text);
+    } else if (!this.spilled && this.head.length + this.tail.length + text.length > this.headLength + this.tailLength) {
+      this.spilled = true;
+      this.openLog(this.head + this.tail + text);
+    }
+
+    if (this.head.length < this.headLength) {
+      const room = this.headLength - this.head.length;
+      this.head += text.slice(0, room);
+      text = text.slice(room);
+    }
+    this.tail = (this.tail + text).slice(-this.tailLength);
+  }
+
+  /** Without a log the head and tail are still kept; only the full text is lost. */
+  private openLog(text: string): void {
+    try {
+      prepareLogDir(this.logDir);
+      const log = createWriteStream(this.logPath);
+      log.on('error', (error) => {
+        this.logError = error.message;
+        this.log = null;
+        log.destroy();
+      });
+      log.write(text);
+      this.log = log;
+    } catch (error) {
+      this.logError = (error as Error).message;
+    }
+  }
+
+  get totalLength(): number {
+    return this.length;
+  }
+
+  async finish(): Promise<Omit<CommandOutput, keyof ExitStatus>> {
+    const totalLines = this.newlines + (this.tail && !this.tail.endsWith('\n') ? 1 : 0);
+    if (!this.spilled) {
+      return { head: this.head + this.tail, tail: '', truncated: false, totalLines };
+    }
+
+    const log = this.log;
+    if (log) await new Promise<void>(resolve => log.end(() => resolve()));
+    // Start and end on whole lines
+    const head = this.head.slice(0, this.head.lastIndexOf('\n') + 1) || this.head;
+    const tail = this.tail.slice(this.tail.indexOf('\n') + 1) || this.tail;
+    // The stream can fail while closing, too
+    return this.log
+      ? { head, tail, truncated: true, totalLines, logPath: this.logPath }
+      : { head, tail, truncated: true, totalLines, logError: this.logError ?? 'log file not written' };
+  }
+}
+
+/** Create the log directory (ignored by git) and drop all but the newest logs. */
+function prepareLogDir(logDir: string): void {
+  mkdirSync(logDir, { recursive: true });
+  writeFileSync(join(logDir, '.gitignore'), '*\n');
+  const logs = readdirSync(logDir).filter(f => f.endsWith('.log')).sort();
+  for (const old of logs.slice(0, Math.max(0, logs.length - (MAX_LOGS - 1)))) {
+    rmSync(join(logDir, old), { force: true });
+  }
+}
+
+/**
+ * Kill a process and everything it spawned. On POSIX the child is started as
+ * a process group leader, so signalling -pid reaches the whole tree.
+ */
+export function killProcessTree(pid: number): void {
+  if (process.platform === 'win32') {
+    spawn('taskkill', ['/pid', String(pid), '/T', '/F'], { stdio: 'ignore' });
+    return;
+  }
+
+  try {
+    process.kill(-pid, 'SIGTERM');
+  } catch {
+    return; // Already gone
+  }
+  // Escalate if anything ignores SIGTERM
+  setTimeout(() => {
+    try {
+      process.kill(-pid, 'SIGKILL');
+    } catch {
+      // Exited after SIGTERM
+    }
+  }, 2000).unref();
+}
+
+/**
+ * Run a shell command, streaming its output to onOutput and collecting it.
+ * Never rejects for a non-zero exit, timeout or abort; those are reported
+ * in the result.
+ */
+export async function runShellCommand(command: string, options: RunCommandOptions): Promise<CommandOutput> {
+  const collector = new OutputCollector(options.headLength, options.tailLength, options.logDir);
+
+  const status = await new Promise<ExitStatus>((resolve, reject) => {
+    const child = spawn(command, {
+      cwd: options.cwd,
+      shell: true,
+      detached: process.platform !== 'win32',
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    const output: ExitStatus = {
+      code: null,
+      timedOut: false,
+      interrupted: false,
+      overflowed: false,
+    };
+
+    // The whole group, even once the shell has exited: "npm run dev &" leaves
+    // a child behind that still holds the output pipes
+    const stop = () => {
+      if (child.pid !== undefined) {
+        killProcessTree(child.pid);
+      }
+    };
+
+    const collect = (text: string) => {
+      if (output.overflowed) return;
+      collector.append(text);
+      options.onOutput?.(text);
+      if (collector.totalLength > options.maxOutput) {
+        output.overflowed = true;
+        stop();
+      }
+    };
+    child.stdout?.setEncoding('utf-8');
+    child.stderr?.setEncoding('utf-8');
+    child.stdout?.on('data', collect);
+    child.stderr?.on('data', collect);
+
+    const timer = setTimeout(() => {
+      output.timedOut = true;
+      stop();
+    }, options.timeoutMs);
+
+    const onAbort = () => {
+      output.interrupted = true;
+      stop();
+    };
+    if (options.signal?.aborted) {
+      onAbort();
+    } else {
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+    }
+
+    let graceTimer: NodeJS.Timeout | undefined;
+    const finish = () => {
+      clearTimeout(timer);
+      clearTimeout(graceTimer);
+      options.signal?.removeEventListener('abort', onAbort);
+    };
+
+    child.on('error', (error) => {
+      finish();
+      reject(error);
+    });
+
+    // 'close' waits for the pipes, which a backgrounded child can hold open
+    // for ever; after the shell exits, give them a moment to drain, then stop
+    // what's left of the group and stop reading
+    child.on('exit', (code) => {
+      output.code = code;
+      graceTimer = setTimeout(() => {
+        stop();
+        child.stdout?.destroy();
+        child.stderr?.destroy();
+        finish();
+        resolve(output);
+      }, EXIT_GRACE_MS);
+    });
+
+    child.on('close', (code) => {
+      finish();
+      output.code = code;
+      resolve(output);
+    });
+  });
+
+  return { ...(await collector.finish()), ...status };
+}
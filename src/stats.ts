@@ -0,0 +1,79 @@
+/** Numbers for one model response. */
+export interface ResponseStats {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  // True when the server didn't report usage and the counts are local estimates
+  estimated: boolean;
+  // From sending the request to the first streamed token
+  timeToFirstTokenMs: number | null;
+  durationMs: number;
+  // Completion tokens over the time spent generating them
+  tokensPerSecond: number | null;
+}
+
+export interface ModelTotals {
+  model: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  // Requests whose counts were estimated locally
+  estimatedRequests: number;
+  averageTimeToFirstTokenMs: number | null;
+  averageTokensPerSecond: number | null;
+}
+
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+/** One-line summary, e.g. "1,204 in · 87 out · 0.4s to first token · 31.2 tok/s". */
+export function formatResponseStats(stats: ResponseStats): string {
+  const approx = stats.estimated ? '~' : '';
+  const parts = [
+    `${approx}${stats.promptTokens.toLocaleString()} in`,
+    `${approx}${stats.completionTokens.toLocaleString()} out`,
+  ];
+  if (stats.timeToFirstTokenMs !== null) {
+    parts.push(`${formatSeconds(stats.timeToFirstTokenMs)} to first token`);
+  }
+  if (stats.tokensPerSecond !== null) {
+    parts.push(`${approx}${stats.tokensPerSecond.toFixed(1)} tok/s`);
+  }
+  parts.push(`${formatSeconds(stats.durationMs)} total`);
+  return parts.join(' · ') + (stats.estimated ? ' (estimated)' : '');
+}
+
+/** Running totals per model, for /stats and the headless transcript. */
+export class UsageTracker {
+  private responses: ResponseStats[] = [];
+
+  record(stats: ResponseStats): void {
+    this.responses.push(stats);
+  }
+
+  reset(): void {
+    this.responses = [];
+  }
+
+  getTotals(): ModelTotals[] {
+    const byModel = new Map<string, ResponseStats[]>();
+    for (const stats of this.responses) {
+      byModel.set(stats.model, [...(byModel.get(stats.model) ?? []), stats]);
+    }
+
+    return Array.from(byModel, ([model, responses]) => {
+      const average = (values: number[]) =>
+        values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+      return {
+        model,
+        requests: responses.length,
+        promptTokens: responses.reduce((sum, r) => sum + r.promptTokens, 0),
+        completionTokens: responses.reduce((sum, r) => sum + r.completionTokens, 0),
+        estimatedRequests: responses.filter(r => r.estimated).length,
+        averageTimeToFirstTokenMs: average(responses.flatMap(r => r.timeToFirstTokenMs ?? [])),
+        averageTokensPerSecond: average(responses.flatMap(r => r.tokensPerSecond ?? [])),
+      };
+    });
+  }
+}
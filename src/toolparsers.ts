@@ -0,0 +1,320 @@
+import { randomBytes } from 'crypto';
+import type { ChatMessage, ToolCall, ToolDefinition } from './client.js';
+import type { Config } from './config.js';
+import { repairJson } from './arguments.js';
+
+/**
+ * How a model expresses tool calls:
+ * - native: OpenAI-style delta.tool_calls only
+ * - auto: native, plus any text format below found in the content
+ * - hermes: <tool_call>{...}</tool_call> blocks (Hermes, Qwen)
+ * - mistral: [TOOL_CALLS] [{...}]
+ * - json: the whole reply is a {"name": ..., "arguments": ...} object (auto
+ *   accepts one too, but only for a known tool with arguments)
+ *
+ * With hermes, mistral and json the tool schema is put in the system prompt
+ * instead of the request's tools field, for models that don't accept it.
+ */
+export type ToolCallFormat = 'native' | 'auto' | 'hermes' | 'mistral' | 'json';
+
+export const TOOL_CALL_FORMATS: ToolCallFormat[] = ['native', 'auto', 'hermes', 'mistral', 'json'];
+
+interface BlockMarker {
+  start: string;
+  // null: the block runs to the end of the reply
+  end: string | null;
+}
+
+// auto holds back a reply opening with "{" at most this long while deciding
+// whether it's a call
+const MAX_UNDECIDED_JSON = 200;
+
+const MARKERS: Record<'hermes' | 'mistral' | 'llama', BlockMarker> = {
+  hermes: { start: '<tool_call>', end: '</tool_call>' },
+  mistral: { start: '[TOOL_CALLS]', end: null },
+  llama: { start: '<|python_tag|>', end: null },
+};
+
+export function usesPromptTools(format: ToolCallFormat): boolean {
+  return format === 'hermes' || format === 'mistral' || format === 'json';
+}
+
+/**
+ * Pick the format for a model from config.toolCallFormats (keyed by model id
+ * or a substring of it), defaulting to auto.
+ */
+export function resolveToolCallFormat(config: Config, model: string | null): ToolCallFormat {
+  const formats = config.toolCallFormats ?? {};
+  if (!model) return 'auto';
+  if (formats[model]) return formats[model];
+  const key = Object.keys(formats).find(k => model.toLowerCase().includes(k.toLowerCase()));
+  return key ? formats[key] : 'auto';
+}
+
+function createToolCall(name: string, args: unknown): ToolCall {
+  return {
+    id: `call_${randomBytes(6).toString('hex')}`,
+    type: 'function',
+    function: {
+      name,
+      arguments: typeof args === 'string' ? args : JSON.stringify(args ?? {}),
+    },
+  };
+}
+
+/**
+ * Convert a JSON payload into tool calls. Accepts a single call or an array,
+ * as {name, arguments}, {name, parameters} or {function: {name, arguments}}.
+ * Returns null if the payload doesn't look like tool calls.
+ */
+export function parseToolCallPayload(payload: string): ToolCall[] | null {
+  const text = payload.trim().replace(/^```[\w-]*\s*/, '').replace(/```$/, '').trim();
+  if (!text) return null;
+
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    try {
+      value = JSON.parse(repairJson(text));
+    } catch {
+      return null;
+    }
+  }
+
+  const items = Array.isArray(value) ? value : [value];
+  const calls: ToolCall[] = [];
+  for (const item of items) {
+    if (typeof item !== 'object' || item === null) return null;
+    const record = item as Record<string, unknown>;
+    const fn = (typeof record.function === 'object' && record.function !== null
+      ? record.function
+      : record) as Record<string, unknown>;
+    if (typeof fn.name !== 'string' || !fn.name) return null;
+    calls.push(createToolCall(fn.name, fn.arguments ?? fn.parameters ?? {}));
+  }
+  return calls.length > 0 ? calls : null;
+}
+
+/**
+ * Streaming filter that pulls text-format tool calls out of the content.
+ * feed() returns the text that is safe to show; anything that might be the
+ * start of tool-call markup is held back until it can be decided.
+ */
+export class TextToolCallExtractor {
+  private markers: BlockMarker[];
+  // json format, or auto: a reply that opens with "{" may be a bare call
+  private allowBareJson: boolean;
+  // auto: only a bare call to one of these tools counts, so JSON the model
+  // shows (a package.json, say) stays in the reply
+  private strictBareJson: boolean;
+  private toolNames: Set<string>;
+  private pending = '';
+  private block: { marker: BlockMarker; text: string } | null = null;
+  private bareJson: string | null = null;
+  private sawVisibleText = false;
+  private calls: ToolCall[] = [];
+
+  constructor(format: ToolCallFormat, toolNames: string[] = []) {
+    if (format === 'hermes') this.markers = [MARKERS.hermes];
+    else if (format === 'mistral') this.markers = [MARKERS.mistral];
+    else if (format === 'json') this.markers = [];
+    else this.markers = [MARKERS.hermes, MARKERS.mistral, MARKERS.llama];
+    this.allowBareJson = format === 'json' || format === 'auto';
+    this.strictBareJson = format === 'auto';
+    this.toolNames = new Set(toolNames);
+  }
+
+  feed(text: string): string {
+    if (this.bareJson !== null) {
+      this.bareJson += text;
+      if (!this.strictBareJson || this.mightBeBareCall(this.bareJson)) return '';
+      // Ordinary JSON after all: show it and stream the rest as usual
+      this.pending = this.bareJson;
+      this.bareJson = null;
+      this.sawVisibleText = true;
+      return this.feed('');
+    }
+
+    this.pending += text;
+    let visible = '';
+
+    if (this.allowBareJson && !this.sawVisibleText && !this.block) {
+      const trimmed = this.pending.trimStart();
+      if (trimmed.startsWith('{') || trimmed.startsWith('```json')) {
+        this.bareJson = this.pending;
+        this.pending = '';
+        return this.feed('');
+      }
+      // Too short to tell yet, e.g. "``" of a fenced call
+      if (!trimmed || '```json'.startsWith(trimmed)) return '';
+    }
+
+    while (this.pending) {
+      if (this.block) {
+        // Search the whole block so an end marker split across chunks is found
+        const end = this.block.marker.end;
+        this.block.text += this.pending;
+        this.pending = '';
+        const index = end ? this.block.text.indexOf(end) : -1;
+        if (index === -1) break;
+        this.pending = this.block.text.slice(index + end!.length);
+        this.block.text = this.block.text.slice(0, index);
+        this.finishBlock();
+        continue;
+      }
+
+      const found = this.findMarker();
+      if (found) {
+        visible += this.pending.slice(0, found.index);
+        this.pending = this.pending.slice(found.index + found.marker.start.length);
+        this.block = { marker: found.marker, text: '' };
+        continue;
+      }
+
+      // Hold back a tail that could be the beginning of a marker
+      const hold = this.partialMarkerLength();
+      visible += this.pending.slice(0, this.pending.length - hold);
+      this.pending = this.pending.slice(this.pending.length - hold);
+      break;
+    }
+
+    if (visible.trim()) this.sawVisibleText = true;
+    return visible;
+  }
+
+  /** End of stream: returns any text still held back. */
+  flush(): string {
+    let visible = '';
+    if (this.bareJson !== null) {
+      const calls = parseToolCallPayload(this.bareJson);
+      const accepted = calls && (!this.strictBareJson
+        || (/"(arguments|parameters)"\s*:/.test(this.bareJson) && calls.every(c => this.toolNames.has(c.function.name))));
+      if (accepted) {
+        this.calls.push(...calls);
+      } else {
+        visible += this.bareJson; // Just a reply that happened to start with "{"
+      }
+      this.bareJson = null;
+    }
+    if (this.block) {
+      // Unterminated block: parse what we have, show it if it isn't a call
+      const raw = this.block.marker.start + this.block.text;
+      if (!this.finishBlock()) visible += raw;
+    }
+    visible += this.pending;
+    this.pending = '';
+    return visible;
+  }
+
+  getToolCalls(): ToolCall[] {
+    return this.calls;
+  }
+
+  /**
+   * auto: whether held-back JSON can still be a call to a known tool. Decided
+   * by the first key ("name" or "function") and the name it gives.
+   */
+  private mightBeBareCall(text: string): boolean {
+    const json = text.trimStart().replace(/^```json\s*/, '');
+    const call = json.match(/^\{\s*"(?:name|function)"\s*:\s*(?:\{\s*"name"\s*:\s*)?"([^"]*)"/);
+    if (call) return this.toolNames.has(call[1]);
+    const firstKey = json.match(/^\{\s*"([^"]*)"/);
+    if (firstKey && firstKey[1] !== 'name' && firstKey[1] !== 'function') return false;
+    if (!firstKey && !/^\{\s*("[^"]*)?$/.test(json)) return false;
+    return json.length < MAX_UNDECIDED_JSON;
+  }
+
+  private finishBlock(): boolean {
+    const calls = this.block ? parseToolCallPayload(this.block.text) : null;
+    this.block = null;
+    if (calls) this.calls.push(...calls);
+    return calls !== null;
+  }
+
+  private findMarker(): { index: number; marker: BlockMarker } | null {
+    let best: { index: number; marker: BlockMarker } | null = null;
+    for (const marker of this.markers) {
+      const index = this.pending.indexOf(marker.start);
+      if (index !== -1 && (!best || index < best.index)) best = { index, marker };
+    }
+    return best;
+  }
+
+  private partialMarkerLength(): number {
+    let longest = 0;
+    for (const marker of this.markers) {
+      for (let len = Math.min(marker.start.length - 1, this.pending.length); len > longest; len--) {
+        if (this.pending.endsWith(marker.start.slice(0, len))) {
+          longest = len;
+          break;
+        }
+      }
+    }
+    return longest;
+  }
+}
+
+function renderToolCall(toolCall: ToolCall, format: ToolCallFormat): string {
+  let args: unknown;
+  try {
+    args = JSON.parse(toolCall.function.arguments || '{}');
+  } catch {
+    args = toolCall.function.arguments;
+  }
+  const json = JSON.stringify({ name: toolCall.function.name, arguments: args });
+  if (format === 'mistral') return `[TOOL_CALLS] [${json}]`;
+  if (format === 'json') return json;
+  return `<tool_call>\n${json}\n</tool_call>`;
+}
+
+function buildToolInstructions(tools: ToolDefinition[], format: ToolCallFormat): string {
+  const example = '{"name": "<tool name>", "arguments": {<arguments as JSON>}}';
+  const howTo = format === 'mistral'
+    ? `To call a tool, reply with [TOOL_CALLS] followed by a JSON array of calls:\n[TOOL_CALLS] [${example}]`
+    : format === 'json'
+      ? `To call a tool, reply with only this JSON object and nothing else:\n${example}`
+      : `To call a tool, reply with one block per call:\n<tool_call>\n${example}\n</tool_call>`;
+
+  const schemas = tools.map(t => JSON.stringify(t.function)).join('\n');
+  return `\n\n# Tools\n\n${howTo}\n\nTool results are returned to you in <tool_response> blocks. When you don't need a tool, reply normally.\n\nAvailable tools (JSON Schema):\n${schemas}`;
+}
+
+/**
+ * Rewrite a conversation for a model that takes tools through the prompt:
+ * the schema goes into the system message, past tool calls become text in
+ * the model's own format, and tool results become user messages.
+ */
+export function toPromptToolMessages(
+  messages: ChatMessage[],
+  tools: ToolDefinition[],
+  format: ToolCallFormat
+): ChatMessage[] {
+  const result: ChatMessage[] = [];
+  const instructions = buildToolInstructions(tools, format);
+
+  for (const message of messages) {
+    if (message.role === 'system') {
+      result.push({ role: 'system', content: (message.content ?? '') + instructions });
+    } else if (message.role === 'assistant' && message.tool_calls?.length) {
+      const calls = message.tool_calls.map(tc => renderToolCall(tc, format)).join('\n');
+      result.push({ role: 'assistant', content: message.content ? `${message.content}\n${calls}` : calls });
+    } else if (message.role === 'tool') {
+      const response = `<tool_response>\n${message.content ?? ''}\n</tool_response>`;
+      const previous = result[result.length - 1];
+      // Consecutive results share one user turn so roles keep alternating
+      if (previous?.role === 'user' && previous.content?.startsWith('<tool_response>')) {
+        previous.content += `\n${response}`;
+      } else {
+        result.push({ role: 'user', content: response });
+      }
+    } else {
+      result.push({ role: message.role, content: message.content });
+    }
+  }
+
+  if (!result.some(m => m.role === 'system')) {
+    result.unshift({ role: 'system', content: instructions.trim() });
+  }
+  return result;
+}
@@ -1,24 +1,60 @@
-import { readFile, writeFile, mkdir } from 'fs/promises';
+import { readFile, writeFile, mkdir, unlink, stat } from 'fs/promises';
 import { existsSync } from 'fs';
-import { join, resolve, relative, dirname } from 'path';
-import { exec } from 'child_process';
-import { promisify } from 'util';
-import { glob } from 'glob';
+import { join, relative, dirname } from 'path';
 import * as readline from 'readline';
+import chalk from 'chalk';
 import type { ToolDefinition } from './client.js';
+import { parsePatch, applyHunks } from './patch.js';
+import { openInEditor } from './editor.js';
+import { createUnifiedDiff, colorizeDiff } from './diff.js';
+import { runShellCommand, CommandOutput } from './shell.js';
+import { listProjectFiles, isBinaryFile, isPathSafe, truncateLine, numberLines } from './files.js';
+import { runGit } from './git.js';
+import type { CheckpointStore } from './checkpoints.js';
+import { BackgroundJobs, describeJobStatus } from './background.js';
+import {
+  PermissionRule,
+  PermissionRules,
+  checkPermission,
+  describeRule,
+  suggestCommandPrefix,
+  addPermissionRule,
+  exactPathPattern,
+  normalizeToolPath,
+} from './permissions.js';
 
-const execAsync = promisify(exec);
+const DEFAULT_COMMAND_TIMEOUT = 60;
+const MAX_COMMAND_TIMEOUT = 1800;
+// Command output kept for the model: the start and the (usually more useful) end
+const COMMAND_HEAD_LENGTH = 4000;
+const COMMAND_TAIL_LENGTH = 8000;
+// Past this the command is stopped; the log file is the only place it goes
+const MAX_COMMAND_OUTPUT = 50 * 1024 * 1024;
+// read_file returns at most this many lines unless asked for a range
+const READ_FILE_DEFAULT_LIMIT = 2000;
+const MAX_LIST_RESULTS = 500;
+const MAX_SEARCH_RESULTS = 100;
+const MAX_CONTEXT_LINES = 10;
+// search_files skips files larger than this
+const MAX_SEARCH_FILE_SIZE = 1024 * 1024;
+// git_diff output beyond this is cut, with a note to narrow it by path
+const MAX_GIT_DIFF = 30000;
+const MAX_LOG_COMMITS = 100;
+// How long start_background waits before reporting, in milliseconds
+const BACKGROUND_STARTUP_WAIT = 2000;
 
 export const toolDefinitions: ToolDefinition[] = [
   {
     type: 'function',
     function: {
       name: 'read_file',
-      description: 'Read the contents of a file',
+      description: `Read a file, with line numbers. Returns up to ${READ_FILE_DEFAULT_LIMIT} lines; use offset and limit to read other parts of long files. The line numbers are not part of the file: leave them out of edit_file and apply_patch.`,
       parameters: {
         type: 'object',
         properties: {
           path: { type: 'string', description: 'File path relative to project root' },
+          offset: { type: 'integer', description: 'First line to read, starting at 1 (default 1)' },
+          limit: { type: 'integer', description: `Number of lines to read (default ${READ_FILE_DEFAULT_LIMIT})` },
         },
         required: ['path'],
       },
@@ -39,11 +75,42 @@ export const toolDefinitions: ToolDefinition[] = [
       },
     },
   },
+  {
+    type: 'function',
+    function: {
+      name: 'edit_file',
+      description: 'Replace an exact string in an existing file. old_string must match the file exactly (including whitespace and indentation) and must be unique unless replace_all is true. Prefer this over write_file for changes to existing files.',
+      parameters: {
+        type: 'object',
+        properties: {
+          path: { type: 'string', description: 'File path relative to project root' },
+          old_string: { type: 'string', description: 'Exact text to replace' },
+          new_string: { type: 'string', description: 'Text to replace it with' },
+          replace_all: { type: 'boolean', description: 'Replace every occurrence instead of requiring a unique match (default: false)' },
+        },
+        required: ['path', 'old_string', 'new_string'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'apply_patch',
+      description: 'Apply a unified diff to one or more files. Use "--- a/path" and "+++ b/path" headers, "@@" hunk headers, and " ", "-", "+" line prefixes. Use /dev/null as the old path to create a file or as the new path to delete one. Hunks are located by their context lines.',
+      parameters: {
+        type: 'object',
+        properties: {
+          patch: { type: 'string', description: 'Unified diff text' },
+        },
+        required: ['patch'],
+      },
+    },
+  },
   {
     type: 'function',
     function: {
       name: 'list_files',
-      description: 'List files matching a glob pattern in the project directory',
+      description: 'List files matching a glob pattern in the project directory. Files excluded by .gitignore or .aingelignore are left out.',
       parameters: {
         type: 'object',
         properties: {
@@ -57,63 +124,443 @@ export const toolDefinitions: ToolDefinition[] = [
     type: 'function',
     function: {
       name: 'search_files',
-      description: 'Search for text or regex pattern in files',
+      description: 'Search for a regex or plain text in project files, skipping ignored, binary and very large files',
       parameters: {
         type: 'object',
         properties: {
-          pattern: { type: 'string', description: 'Search pattern (regex supported)' },
+          pattern: { type: 'string', description: 'Search pattern (a regex unless literal is true)' },
           glob_pattern: { type: 'string', description: 'Optional glob pattern to filter files (default: "**/*")' },
+          literal: { type: 'boolean', description: 'Match the pattern as plain text rather than a regex (default false)' },
+          case_sensitive: { type: 'boolean', description: 'Match case exactly (default false)' },
+          context_lines: { type: 'integer', description: `Lines of context to show around each match (default 0, max ${MAX_CONTEXT_LINES})` },
         },
         required: ['pattern'],
       },
     },
   },
+  {
+    type: 'function',
+    function: {
+      name: 'git_status',
+      description: 'Show the current git branch and which files are modified, staged or untracked',
+      parameters: {
+        type: 'object',
+        properties: {},
+        required: [],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'git_diff',
+      description: 'Show uncommitted changes as a unified diff, or the changes since a given commit. New files git does not track yet are left out; git_status lists them.',
+      parameters: {
+        type: 'object',
+        properties: {
+          path: { type: 'string', description: 'Optional file or directory to limit the diff to' },
+          staged: { type: 'boolean', description: 'Show only changes staged for commit (default false)' },
+          ref: { type: 'string', description: 'Optional commit, branch or tag to compare the working tree with, e.g. HEAD~3 or main' },
+        },
+        required: [],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'git_log',
+      description: 'Show recent commits: hash, date, author and subject',
+      parameters: {
+        type: 'object',
+        properties: {
+          count: { type: 'integer', description: `Number of commits to show (default 10, max ${MAX_LOG_COMMITS})` },
+          path: { type: 'string', description: 'Optional file or directory to show the history of' },
+        },
+        required: [],
+      },
+    },
+  },
   {
     type: 'function',
     function: {
       name: 'run_command',
-      description: 'Execute a shell command in the project directory. Requires user confirmation.',
+      description: 'Execute a shell command in the project directory. Requires user confirmation. Long output is cut to its start and end, with the full output saved to a log file you can read with read_file.',
       parameters: {
         type: 'object',
         properties: {
           command: { type: 'string', description: 'Shell command to execute' },
+          timeout: {
+            type: 'integer',
+            description: `Seconds to wait before stopping the command (default ${DEFAULT_COMMAND_TIMEOUT}, max ${MAX_COMMAND_TIMEOUT}). Raise it for long builds and test runs.`,
+          },
+        },
+        required: ['command'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'start_background',
+      description: 'Start a long-running command in the background, such as a dev server or a test watcher, and return right away with a job id. Requires user confirmation. Use run_command for commands that finish on their own.',
+      parameters: {
+        type: 'object',
+        properties: {
+          command: { type: 'string', description: 'Shell command to start' },
         },
         required: ['command'],
       },
     },
   },
+  {
+    type: 'function',
+    function: {
+      name: 'read_background_output',
+      description: 'Read output from a background job that you have not seen yet, plus whether it is still running',
+      parameters: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer', description: 'Job id from start_background' },
+          from_start: { type: 'boolean', description: 'Return all buffered output instead of only new output' },
+        },
+        required: ['id'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'list_background',
+      description: 'List background jobs with their status',
+      parameters: {
+        type: 'object',
+        properties: {},
+        required: [],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'stop_background',
+      description: 'Stop a background job and every process it started',
+      parameters: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer', description: 'Job id from start_background' },
+        },
+        required: ['id'],
+      },
+    },
+  },
 ];
 
-function isPathSafe(projectRoot: string, requestedPath: string): boolean {
-  const absolutePath = resolve(projectRoot, requestedPath);
-  const relativePath = relative(projectRoot, absolutePath);
-  return !relativePath.startsWith('..') && !relativePath.startsWith('/');
-}
-
-async function confirmCommand(command: string): Promise<boolean> {
+async function askQuestion(question: string, signal?: AbortSignal): Promise<string> {
   const rl = readline.createInterface({
     input: process.stdin,
     output: process.stdout,
   });
 
   return new Promise((resolve) => {
-    rl.question(`\n  Execute command: ${command}\n  Confirm? (y/n): `, (answer) => {
+    // An interrupted turn abandons the question, which reads as "no"
+    const onAbort = () => {
       rl.close();
-      resolve(answer.toLowerCase() === 'y' || answer.toLowerCase() === 'yes');
+      resolve('');
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    rl.question(question, (answer) => {
+      signal?.removeEventListener('abort', onAbort);
+      rl.close();
+      resolve(answer.trim());
     });
   });
 }
 
+async function confirmCommand(command: string, signal?: AbortSignal): Promise<'yes' | 'no' | 'always'> {
+  const prefix = suggestCommandPrefix(command);
+  const always = prefix ? ` / (a)lways allow "${prefix}" in this project` : '';
+  const answer = (await askQuestion(
+    `\n  Execute command: ${command}\n  Confirm? (y)es / (n)o${always}: `,
+    signal
+  )).toLowerCase();
+  if (answer === 'y' || answer === 'yes') return 'yes';
+  if (prefix && (answer === 'a' || answer === 'always')) return 'always';
+  return 'no';
+}
+
+/** Keep the end of a background job's output, which is where errors and "ready" lines are. */
+function truncateJobOutput(text: string): string {
+  if (text.length <= COMMAND_TAIL_LENGTH) return text;
+  return `... [${text.length - COMMAND_TAIL_LENGTH} characters omitted] ...\n${text.slice(-COMMAND_TAIL_LENGTH)}`;
+}
+
+/** Echo command output as it arrives, dimmed and indented under the prompt. */
+function createLiveOutput(): { write: (text: string) => void; end: () => void } {
+  let atLineStart = true;
+  return {
+    write(text: string) {
+      let out = '';
+      text.split('\n').forEach((line, i) => {
+        if (i > 0) {
+          out += '\n';
+          atLineStart = true;
+        }
+        if (line) {
+          out += (atLineStart ? '    ' : '') + line;
+          atLineStart = false;
+        }
+      });
+      process.stdout.write(chalk.gray(out));
+    },
+    end() {
+      if (!atLineStart) process.stdout.write('\n');
+    },
+  };
+}
+
+/** The output as returned to the model: whole, or its start and end with a pointer to the log. */
+function formatCommandOutput(output: CommandOutput, projectRoot: string): string {
+  if (!output.truncated) return output.head;
+
+  const headLines = output.head.split('\n').length - 1;
+  const tailLines = output.tail.replace(/\n$/, '').split('\n').length;
+  const omitted = Math.max(0, output.totalLines - headLines - tailLines);
+  const where = output.logPath
+    ? `the full output (${output.totalLines} lines) is in ${relative(projectRoot, output.logPath)}, use read_file to see it`
+    : `the full output (${output.totalLines} lines) could not be saved: ${output.logError}`;
+  return `${output.head}\n... [${omitted} lines omitted; ${where}] ...\n\n${output.tail}`;
+}
+
+/**
+ * Save an "always allow" answer for this project and apply it to the rest
+ * of the turn.
+ */
+async function rememberRule(rule: PermissionRule, projectRoot: string, context: ToolContext): Promise<void> {
+  context.permissions.project.push(rule);
+  try {
+    await addPermissionRule(rule, 'project', projectRoot);
+    console.log(chalk.gray(`  Saved permission rule: ${describeRule(rule)}`));
+  } catch (error) {
+    const err = error as Error;
+    console.log(chalk.gray(`  (could not save permission rule: ${err.message})`));
+  }
+}
+
+/**
+ * Per-turn state shared by every tool call the model makes while answering
+ * one user message. The REPL creates a fresh context for each message.
+ */
+export interface ToolContext {
+  approveAllWrites: boolean;
+  // False for headless runs: nothing may prompt or print to stdout
+  interactive: boolean;
+  // Only consulted when not interactive, since there is nobody to ask
+  allowCommands: boolean;
+  // Aborted when the user cancels the turn (Ctrl+C)
+  signal?: AbortSignal;
+  permissions: PermissionRules;
+  // Receives a snapshot of every file before it is changed, for /undo
+  checkpoints?: CheckpointStore;
+  // Long-running commands, which outlive the turn that started them
+  background?: BackgroundJobs;
+}
+
+export function createToolContext(overrides: Partial<ToolContext> = {}): ToolContext {
+  return {
+    approveAllWrites: false,
+    interactive: true,
+    allowCommands: false,
+    permissions: { global: [], project: [] },
+    ...overrides,
+  };
+}
+
+/** A pending file modification; null content means the file is absent. */
+interface FileChange {
+  path: string;
+  before: string | null;
+  after: string | null;
+}
+
+type Approval = 'approved' | 'edited' | 'declined';
+
+async function approveFileChanges(
+  changes: FileChange[],
+  projectRoot: string,
+  context: ToolContext,
+  allowedByRule: boolean
+): Promise<Approval> {
+  if (!context.interactive) {
+    return 'approved';
+  }
+
+  for (const change of changes) {
+    const diff = createUnifiedDiff(change.path, change.before, change.after);
+    console.log('');
+    console.log(diff ? `  ${colorizeDiff(diff).split('\n').join('\n  ')}` : chalk.gray(`  ${change.path}: no changes`));
+  }
+
+  if (allowedByRule) {
+    console.log(chalk.gray('\n  (allowed by permission rule)'));
+    return 'approved';
+  }
+  if (context.approveAllWrites) {
+    console.log(chalk.gray('\n  (auto-approved for this turn)'));
+    return 'approved';
+  }
+
+  while (true) {
+    const answer = (await askQuestion(
+      '\n  Apply changes? (y)es / (n)o / (e)dit / (a)ll this turn / al(w)ays allow for these files: ',
+      context.signal
+    )).toLowerCase();
+    if (context.signal?.aborted) return 'declined';
+    if (answer === 'y' || answer === 'yes') return 'approved';
+    if (answer === 'n' || answer === 'no' || answer === '') return 'declined';
+    if (answer === 'a' || answer === 'all') {
+      context.approveAllWrites = true;
+      return 'approved';
+    }
+    if (answer === 'w' || answer === 'always') {
+      for (const change of changes) {
+        const path = exactPathPattern(normalizeToolPath(projectRoot, change.path));
+        await rememberRule({ tool: 'write', action: 'allow', path }, projectRoot, context);
+      }
+      return 'approved';
+    }
+    if (answer === 'e' || answer === 'edit') {
+      for (const change of changes) {
+        if (change.after !== null) {
+          change.after = openInEditor(change.path, change.after);
+        }
+      }
+      return 'edited';
+    }
+  }
+}
+
+async function writeFileChanges(changes: FileChange[], projectRoot: string, context: ToolContext): Promise<void> {
+  for (const change of changes) {
+    const fullPath = join(projectRoot, change.path);
+    // Snapshot what is on disk now rather than change.before, in case the
+    // file changed while the user was looking at the diff
+    const current = existsSync(fullPath) ? await readFile(fullPath, 'utf-8') : null;
+    context.checkpoints?.record(change.path, current, change.after);
+
+    if (change.after === null) {
+      await unlink(fullPath);
+      continue;
+    }
+
+    // Create parent directories if needed
+    const dir = dirname(fullPath);
+    if (!existsSync(dir)) {
+      await mkdir(dir, { recursive: true });
+    }
+    await writeFile(fullPath, change.after, 'utf-8');
+  }
+}
+
+/**
+ * Show the diff for a set of changes, ask the user, and write them if
+ * approved. Returns the tool result to report back to the model.
+ */
+async function commitFileChanges(
+  changes: FileChange[],
+  projectRoot: string,
+  context: ToolContext,
+  summary: string,
+  allowedByRule: boolean
+): Promise<ToolResult> {
+  const approval = await approveFileChanges(changes, projectRoot, context, allowedByRule);
+  if (approval === 'declined') {
+    const paths = changes.map(c => c.path).join(', ');
+    return {
+      success: false,
+      result: `The user declined the change to ${paths}. The file was not modified. Ask the user how they would like to proceed.`,
+    };
+  }
+
+  await writeFileChanges(changes, projectRoot, context);
+  if (approval === 'edited') {
+    return {
+      success: true,
+      result: `${summary}\nNote: the user edited the content before it was saved. Re-read the file before making further changes.`,
+    };
+  }
+  return { success: true, result: summary };
+}
+
 export interface ToolResult {
   success: boolean;
   result: string;
 }
 
+/**
+ * Ask before running a shell command, unless a rule already allowed it.
+ * Returns the result to send back if the command may not run.
+ */
+async function authorizeCommand(
+  command: string,
+  allowed: boolean,
+  projectRoot: string,
+  context: ToolContext
+): Promise<ToolResult | null> {
+  if (allowed) {
+    if (context.interactive) {
+      console.log(chalk.gray(`\n  Running (allowed by permission rule): ${command}`));
+    }
+    return null;
+  }
+  if (!context.interactive) {
+    if (!context.allowCommands) {
+      return {
+        success: false,
+        result: 'Command not run: shell commands are disabled in non-interactive mode (the user can enable them with --allow-commands)',
+      };
+    }
+    return null;
+  }
+
+  const answer = await confirmCommand(command, context.signal);
+  if (answer === 'no') {
+    return { success: false, result: 'Command cancelled by user' };
+  }
+  if (answer === 'always') {
+    await rememberRule(
+      { tool: 'run_command', action: 'allow', command: suggestCommandPrefix(command)! },
+      projectRoot,
+      context
+    );
+  }
+  return null;
+}
+
 export async function executeTool(
   name: string,
   args: Record<string, unknown>,
-  projectRoot: string
+  projectRoot: string,
+  context: ToolContext = createToolContext()
 ): Promise<ToolResult> {
+  const decision = checkPermission(context.permissions, name, args, projectRoot);
+  if (decision.action === 'deny') {
+    const reason = decision.rule ? ` by rule "${describeRule(decision.rule)}"` : '';
+    return {
+      success: false,
+      result: `Permission denied${reason}. Do not retry this; ask the user if it is really needed.`,
+    };
+  }
+  // A rule that says to ask can't be satisfied with no one to ask
+  if (decision.action === 'ask' && decision.rule && !context.interactive) {
+    return {
+      success: false,
+      result: `Not allowed: rule "${describeRule(decision.rule)}" requires the user's approval, and nobody can be asked in non-interactive mode. Do not retry this.`,
+    };
+  }
+  const allowed = decision.action === 'allow';
+
   try {
     switch (name) {
       case 'read_file': {
@@ -125,8 +572,27 @@ export async function executeTool(
         if (!existsSync(fullPath)) {
           return { success: false, result: `Error: File not found: ${path}` };
         }
-        const content = await readFile(fullPath, 'utf-8');
-        return { success: true, result: content };
+        if (await isBinaryFile(fullPath)) {
+          return { success: false, result: `Error: ${path} is a binary file` };
+        }
+
+        const lines = (await readFile(fullPath, 'utf-8')).split('\n');
+        if (lines[lines.length - 1] === '') lines.pop();
+        const offset = Math.max(1, Math.floor(Number(args.offset) || 1));
+        const limit = Math.max(1, Math.floor(Number(args.limit) || READ_FILE_DEFAULT_LIMIT));
+        if (lines.length === 0) {
+          return { success: true, result: '(empty file)' };
+        }
+        if (offset > lines.length) {
+          return { success: false, result: `Error: offset ${offset} is past the end of ${path} (${lines.length} lines)` };
+        }
+
+        const end = Math.min(lines.length, offset + limit - 1);
+        const numbered = numberLines(lines.slice(offset - 1, end), offset);
+        const more = offset > 1 || end < lines.length
+          ? `\n(lines ${offset}-${end} of ${lines.length}${end < lines.length ? `; use offset ${end + 1} to read on` : ''})`
+          : '';
+        return { success: true, result: numbered + more };
       }
 
       case 'write_file': {
@@ -136,91 +602,360 @@ export async function executeTool(
           return { success: false, result: 'Error: Path traversal not allowed' };
         }
         const fullPath = join(projectRoot, path);
-        const dir = dirname(fullPath);
+        const existed = existsSync(fullPath);
+        const before = existed ? await readFile(fullPath, 'utf-8') : null;
+
+        return commitFileChanges(
+          [{ path, before, after: content }],
+          projectRoot,
+          context,
+          existed ? `File updated: ${path}` : `File created: ${path}`,
+          allowed
+        );
+      }
+
+      case 'edit_file': {
+        const path = args.path as string;
+        const oldString = args.old_string as string;
+        const newString = args.new_string as string;
+        const replaceAll = args.replace_all === true;
+        if (!isPathSafe(projectRoot, path)) {
+          return { success: false, result: 'Error: Path traversal not allowed' };
+        }
+        const fullPath = join(projectRoot, path);
+        if (!existsSync(fullPath)) {
+          return { success: false, result: `Error: File not found: ${path}. Use write_file to create new files.` };
+        }
+        if (!oldString) {
+          return { success: false, result: 'Error: old_string must not be empty' };
+        }
+        if (oldString === newString) {
+          return { success: false, result: 'Error: old_string and new_string are identical' };
+        }
 
-        // Create parent directories if needed
-        if (!existsSync(dir)) {
-          await mkdir(dir, { recursive: true });
+        const content = await readFile(fullPath, 'utf-8');
+        const occurrences = content.split(oldString).length - 1;
+        if (occurrences === 0) {
+          return {
+            success: false,
+            result: `Error: old_string not found in ${path}. It must match the file exactly, including whitespace. Re-read the file and try again.`,
+          };
+        }
+        if (occurrences > 1 && !replaceAll) {
+          return {
+            success: false,
+            result: `Error: old_string matches ${occurrences} locations in ${path}. Include more surrounding context to make it unique, or set replace_all to true.`,
+          };
         }
 
-        const existed = existsSync(fullPath);
-        await writeFile(fullPath, content, 'utf-8');
-        return {
-          success: true,
-          result: existed ? `File updated: ${path}` : `File created: ${path}`,
-        };
+        // split/join avoids String.replace treating "$&" etc. in new_string specially
+        const updated = content.split(oldString).join(newString);
+        return commitFileChanges(
+          [{ path, before: content, after: updated }],
+          projectRoot,
+          context,
+          `File edited: ${path} (${occurrences} replacement${occurrences === 1 ? '' : 's'})`,
+          allowed
+        );
+      }
+
+      case 'apply_patch': {
+        const patch = args.patch as string;
+        let filePatches;
+        try {
+          filePatches = parsePatch(patch);
+        } catch (error) {
+          return { success: false, result: `Error: Invalid patch: ${(error as Error).message}` };
+        }
+
+        // Compute every file's new content before writing anything, so a
+        // failing hunk leaves the project untouched
+        const changes: FileChange[] = [];
+        const actions: string[] = [];
+        for (const filePatch of filePatches) {
+          const path = filePatch.newPath ?? filePatch.oldPath;
+          if (!path) {
+            return { success: false, result: 'Error: Invalid patch: both old and new paths are /dev/null' };
+          }
+          if (!isPathSafe(projectRoot, path)) {
+            return { success: false, result: `Error: Path traversal not allowed: ${path}` };
+          }
+          const fullPath = join(projectRoot, path);
+          const exists = existsSync(fullPath);
+
+          if (filePatch.newPath === null) {
+            if (!exists) {
+              return { success: false, result: `Error: Cannot delete ${path}: file not found` };
+            }
+            changes.push({ path, before: await readFile(fullPath, 'utf-8'), after: null });
+            actions.push(`File deleted: ${path}`);
+            continue;
+          }
+          if (filePatch.oldPath === null && exists) {
+            return { success: false, result: `Error: Cannot create ${path}: file already exists` };
+          }
+          if (filePatch.oldPath !== null && !exists) {
+            return { success: false, result: `Error: File not found: ${path}` };
+          }
+
+          const original = exists ? await readFile(fullPath, 'utf-8') : null;
+          try {
+            changes.push({ path, before: original, after: applyHunks(original ?? '', filePatch.hunks) });
+            actions.push(exists ? `File patched: ${path}` : `File created: ${path}`);
+          } catch (error) {
+            return { success: false, result: `Error: Patch failed for ${path}: ${(error as Error).message}` };
+          }
+        }
+
+        return commitFileChanges(changes, projectRoot, context, actions.join('\n'), allowed);
       }
 
       case 'list_files': {
         const pattern = args.pattern as string;
-        const files = await glob(pattern, {
-          cwd: projectRoot,
-          nodir: true,
-          ignore: ['**/node_modules/**', '**/.git/**'],
-        });
+        const files = await listProjectFiles(projectRoot, pattern);
         if (files.length === 0) {
           return { success: true, result: 'No files found matching pattern' };
         }
-        return { success: true, result: files.join('\n') };
+        const dropped = files.length - MAX_LIST_RESULTS;
+        return {
+          success: true,
+          result: files.slice(0, MAX_LIST_RESULTS).join('\n') +
+            (dropped > 0 ? `\n(${dropped} more files not shown; use a narrower pattern)` : ''),
+        };
       }
 
       case 'search_files': {
         const pattern = args.pattern as string;
         const globPattern = (args.glob_pattern as string) || '**/*';
-        const files = await glob(globPattern, {
-          cwd: projectRoot,
-          nodir: true,
-          ignore: ['**/node_modules/**', '**/.git/**'],
-        });
+        const contextLines = Math.min(Math.max(Math.floor(Number(args.context_lines) || 0), 0), MAX_CONTEXT_LINES);
+        const source = args.literal === true ? pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&') : pattern;
 
-        const regex = new RegExp(pattern, 'gi');
-        const results: string[] = [];
+        let regex: RegExp;
+        try {
+          regex = new RegExp(source, args.case_sensitive === true ? '' : 'i');
+        } catch (error) {
+          return { success: false, result: `Error: Invalid regex: ${(error as Error).message} (pass literal: true to search for the text as is)` };
+        }
+
+        const files = await listProjectFiles(projectRoot, globPattern);
+        const blocks: string[] = [];
+        let matchCount = 0;
+        let matchedFiles = 0;
+        let skippedBinary = 0;
+        let skippedLarge = 0;
 
         for (const file of files) {
+          const fullPath = join(projectRoot, file);
           try {
-            const fullPath = join(projectRoot, file);
-            const content = await readFile(fullPath, 'utf-8');
-            const lines = content.split('\n');
+            if ((await stat(fullPath)).size > MAX_SEARCH_FILE_SIZE) {
+              skippedLarge++;
+              continue;
+            }
+            if (await isBinaryFile(fullPath)) {
+              skippedBinary++;
+              continue;
+            }
+            const lines = (await readFile(fullPath, 'utf-8')).split('\n');
+            if (lines[lines.length - 1] === '') lines.pop();
+            const matches = lines.flatMap((line, i) => (regex.test(line) ? [i] : []));
+            if (matches.length === 0) continue;
+
+            matchedFiles++;
+            const shown = matches.slice(0, Math.max(0, MAX_SEARCH_RESULTS - matchCount));
+            matchCount += matches.length;
+            if (contextLines === 0) {
+              blocks.push(...shown.map(i => `${file}:${i + 1}: ${truncateLine(lines[i].trim())}`));
+              continue;
+            }
 
-            for (let i = 0; i < lines.length; i++) {
-              if (regex.test(lines[i])) {
-                results.push(`${file}:${i + 1}: ${lines[i].trim()}`);
+            // grep style: ":" marks matching lines, "-" the context around them,
+            // and matches whose context overlaps share a block
+            const matched = new Set(shown);
+            let block: string[] = [];
+            let blockEnd = -1;
+            for (const i of shown) {
+              const from = Math.max(0, i - contextLines);
+              if (from > blockEnd + 1 && block.length > 0) {
+                blocks.push(block.join('\n'));
+                block = [];
+              }
+              const to = Math.min(lines.length - 1, i + contextLines);
+              for (let j = Math.max(from, blockEnd + 1); j <= to; j++) {
+                const mark = matched.has(j) ? ':' : '-';
+                block.push(`${file}${mark}${j + 1}${mark} ${truncateLine(lines[j])}`);
               }
-              regex.lastIndex = 0; // Reset regex state
+              blockEnd = to;
             }
+            if (block.length > 0) blocks.push(block.join('\n'));
           } catch {
-            // Skip files that can't be read (e.g., binary files)
+            // Unreadable (permissions, or deleted mid-search)
           }
         }
 
-        if (results.length === 0) {
-          return { success: true, result: 'No matches found' };
+        const notes: string[] = [];
+        if (matchCount > MAX_SEARCH_RESULTS) {
+          notes.push(`showing the first ${MAX_SEARCH_RESULTS} of ${matchCount} matches in ${matchedFiles} file${matchedFiles === 1 ? '' : 's'}; narrow the pattern or glob_pattern to see the rest`);
+        }
+        if (skippedBinary > 0) notes.push(`skipped ${skippedBinary} binary file${skippedBinary === 1 ? '' : 's'}`);
+        if (skippedLarge > 0) notes.push(`skipped ${skippedLarge} file${skippedLarge === 1 ? '' : 's'} over ${MAX_SEARCH_FILE_SIZE / 1024 / 1024} MB`);
+        const footer = notes.length > 0 ? `\n(${notes.join('; ')})` : '';
+
+        if (blocks.length === 0) {
+          return { success: true, result: `No matches found${footer}` };
+        }
+        return { success: true, result: blocks.join(contextLines > 0 ? '\n--\n' : '\n') + footer };
+      }
+
+      case 'git_status': {
+        const output = await runGit(projectRoot, ['status', '--short', '--branch']);
+        const [branch, ...files] = output.trimEnd().split('\n');
+        return { success: true, result: files.length > 0 ? output.trimEnd() : `${branch}\nWorking tree clean` };
+      }
+
+      case 'git_diff': {
+        const path = args.path as string | undefined;
+        const ref = args.ref as string | undefined;
+        if (path && !isPathSafe(projectRoot, path)) {
+          return { success: false, result: 'Error: Path traversal not allowed' };
+        }
+        // Anything starting with "-" would be read as an option (git diff --output writes files)
+        if (ref && (ref.startsWith('-') || /\s/.test(ref))) {
+          return { success: false, result: `Error: Invalid ref: ${ref}` };
+        }
+
+        const diffArgs = ['diff', '--no-color', '--no-ext-diff'];
+        if (args.staged === true) diffArgs.push('--cached');
+        if (ref) diffArgs.push(ref);
+        const diff = await runGit(projectRoot, [...diffArgs, '--', ...(path ? [path] : [])]);
+        if (!diff.trim()) {
+          return { success: true, result: args.staged === true ? 'No staged changes' : 'No changes' };
+        }
+        if (diff.length > MAX_GIT_DIFF) {
+          const stat = await runGit(projectRoot, [...diffArgs, '--stat', '--', ...(path ? [path] : [])]);
+          return {
+            success: true,
+            result: `${diff.slice(0, MAX_GIT_DIFF)}\n... [diff cut at ${MAX_GIT_DIFF} characters; pass path to see one file at a time] ...\n\n${stat.trimEnd()}`,
+          };
+        }
+        return { success: true, result: diff.trimEnd() };
+      }
+
+      case 'git_log': {
+        const path = args.path as string | undefined;
+        if (path && !isPathSafe(projectRoot, path)) {
+          return { success: false, result: 'Error: Path traversal not allowed' };
         }
-        return { success: true, result: results.slice(0, 100).join('\n') };
+        const count = Math.min(Math.max(Math.floor(Number(args.count) || 10), 1), MAX_LOG_COMMITS);
+        const log = await runGit(projectRoot, [
+          'log', `-n${count}`, '--date=short', '--format=%h %ad %an: %s', '--', ...(path ? [path] : []),
+        ]).catch((error: Error) => {
+          // A repository without commits yet
+          if (/does not have any commits/.test(error.message)) return '';
+          throw error;
+        });
+        return { success: true, result: log.trimEnd() || 'No commits yet' };
       }
 
       case 'run_command': {
         const command = args.command as string;
-        const confirmed = await confirmCommand(command);
-        if (!confirmed) {
-          return { success: false, result: 'Command cancelled by user' };
-        }
+        const refusal = await authorizeCommand(command, allowed, projectRoot, context);
+        if (refusal) return refusal;
 
+        const timeout = Math.min(Math.max(Number(args.timeout) || DEFAULT_COMMAND_TIMEOUT, 1), MAX_COMMAND_TIMEOUT);
+        const live = context.interactive ? createLiveOutput() : null;
+        let output: CommandOutput;
         try {
-          const { stdout, stderr } = await execAsync(command, {
+          output = await runShellCommand(command, {
             cwd: projectRoot,
-            timeout: 60000,
-            maxBuffer: 1024 * 1024,
+            timeoutMs: timeout * 1000,
+            maxOutput: MAX_COMMAND_OUTPUT,
+            headLength: COMMAND_HEAD_LENGTH,
+            tailLength: COMMAND_TAIL_LENGTH,
+            logDir: join(projectRoot, '.aingel', 'logs'),
+            signal: context.signal,
+            onOutput: live?.write,
           });
-          const output = stdout + (stderr ? `\nStderr:\n${stderr}` : '');
-          return { success: true, result: output || 'Command completed (no output)' };
-        } catch (error) {
-          const execError = error as { stdout?: string; stderr?: string; message: string };
-          return {
-            success: false,
-            result: `Command failed: ${execError.message}\n${execError.stderr || ''}`,
-          };
+        } finally {
+          live?.end();
+        }
+        const text = formatCommandOutput(output, projectRoot);
+
+        if (output.interrupted) {
+          return { success: false, result: `Command interrupted by user\n${text}` };
+        }
+        if (output.timedOut) {
+          return { success: false, result: `Command timed out after ${timeout}s (pass a larger timeout if it needs longer): ${command}\n${text}` };
+        }
+        if (output.overflowed) {
+          return { success: false, result: `Command output exceeded ${MAX_COMMAND_OUTPUT / 1024 / 1024} MB and was stopped: ${command}\n${text}` };
+        }
+        if (output.code !== 0) {
+          return { success: false, result: `Command failed (exit code ${output.code}): ${command}\n${text}` };
+        }
+        if (output.truncated) {
+          return { success: true, result: `Command succeeded (exit code 0)\n${text}` };
+        }
+        return { success: true, result: text || 'Command completed (no output)' };
+      }
+
+      case 'start_background': {
+        const command = args.command as string;
+        if (!context.background) {
+          return { success: false, result: 'Error: Background jobs are not available in this session' };
+        }
+        const refusal = await authorizeCommand(command, allowed, projectRoot, context);
+        if (refusal) return refusal;
+
+        const job = context.background.start(command);
+        // Give it a moment so a command that fails straight away says so
+        await context.background.waitForExit(job.id, BACKGROUND_STARTUP_WAIT);
+        const started = context.background.get(job.id)!;
+        const output = context.background.read(job.id)!.text;
+        const summary = started.status === 'running'
+          ? `Started background job ${job.id} (pid ${job.pid}): ${command}`
+          : `Background job ${job.id} ${describeJobStatus(started)} right after starting: ${command}`;
+        return {
+          success: started.status === 'running',
+          result: `${summary}\n${output ? `Output so far:\n${truncateJobOutput(output)}` : '(no output yet)'}`,
+        };
+      }
+
+      case 'read_background_output': {
+        const id = Number(args.id);
+        const job = context.background?.get(id);
+        if (!job) {
+          return { success: false, result: `Error: No background job ${args.id}` };
+        }
+        const output = context.background!.read(id, args.from_start === true)!;
+        const dropped = output.droppedChars > 0 ? `(${output.droppedChars} earlier characters were dropped)\n` : '';
+        return {
+          success: true,
+          result: `Job ${id} is ${describeJobStatus(job)}: ${job.command}\n${dropped}${output.text ? truncateJobOutput(output.text) : '(no new output)'}`,
+        };
+      }
+
+      case 'list_background': {
+        const jobs = context.background?.list() ?? [];
+        if (jobs.length === 0) {
+          return { success: true, result: 'No background jobs' };
+        }
+        return { success: true, result: jobs.map(job => `${job.id}. [${describeJobStatus(job)}] ${job.command}`).join('\n') };
+      }
+
+      case 'stop_background': {
+        const id = Number(args.id);
+        const before = context.background?.get(id);
+        if (!before) {
+          return { success: false, result: `Error: No background job ${args.id}` };
+        }
+        if (before.status !== 'running') {
+          return { success: true, result: `Job ${id} had already ${describeJobStatus(before)}` };
+        }
+        await context.background!.stop(id);
+        if (context.interactive) {
+          console.log(chalk.gray(`  Stopped background job ${id}: ${before.command}`));
         }
+        return { success: true, result: `Stopped job ${id}: ${before.command}` };
       }
 
       default: